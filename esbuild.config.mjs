@@ -1,9 +1,24 @@
 import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
+import { readFileSync } from "fs";
+import { createHash } from "crypto";
 
 const prod = process.argv[2] === "production";
 
+// Notes and user property field helpers, shared by the companion script and the push commands
+const fieldsSource = readFileSync("scripts/fmod-fields.js", "utf8");
+
+// Embed the companion script, stamped with the plugin version and a hash of the
+// script, so installs from other builds can be detected even when the version is the same
+const manifest = JSON.parse(readFileSync("manifest.json", "utf8"));
+const scriptSource = readFileSync("scripts/FMOD_Obsidian_Sync.js", "utf8").replace(
+	/^( *)\/\/ @include fmod-fields\.js$/m,
+	(_, indent) => fieldsSource.trimEnd().replace(/^(?=.)/gm, indent)
+);
+const scriptHash = createHash("sha256").update(scriptSource).digest("hex").slice(0, 12);
+const companionScript = `// @fmod-sync-version ${manifest.version}+${scriptHash}\n` + scriptSource;
+
 const context = await esbuild.context({
 	entryPoints: ["main.ts"],
 	bundle: true,
@@ -23,6 +38,10 @@ const context = await esbuild.context({
 		"@lezer/lr",
 		...builtins,
 	],
+	define: {
+		COMPANION_SCRIPT: JSON.stringify(companionScript),
+		FMOD_FIELDS_SCRIPT: JSON.stringify(fieldsSource),
+	},
 	format: "cjs",
 	target: "es2018",
 	logLevel: "info",
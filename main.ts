@@ -1,13 +1,55 @@
-import { addIcon, App, Notice, Plugin } from "obsidian";
+import { addIcon, App, Notice, Plugin, TFile, normalizePath } from "obsidian";
 
 // Import from modules
-import type { FMODSyncSettings, FMODProjectConfig, NewerExportInfo } from "./src/types";
-import { FMOD_ICON_SVG, DEFAULT_SETTINGS, FMOD_LAUNCH_TIMEOUT } from "./src/constants";
-import { findNewerExport } from "./src/sync/json-reader";
-import { syncSingleProject, syncProjects, SyncEngineCallbacks } from "./src/sync/engine";
-import { ProjectPickerModal } from "./src/ui/modals";
+import type {
+	FMODSyncSettings,
+	FMODProjectConfig,
+	NewerExportInfo,
+	SyncChange,
+	SyncStats,
+	SyncHistoryEntry,
+	SyncHistoryDetails,
+} from "./src/types";
+import { FMOD_ICON_SVG, DEFAULT_SETTINGS, FMOD_LAUNCH_TIMEOUT, MAX_HISTORY_ENTRIES } from "./src/constants";
+import { findNewerExport, listProjectExports } from "./src/sync/json-reader";
+import { writeExportChangelog } from "./src/sync/compare";
+import { ExportWatcher } from "./src/sync/watcher";
+import { SyncHistoryStore } from "./src/sync/history";
+import { AudioMetadataStore } from "./src/utils/audio-metadata";
+import {
+	syncSingleProject,
+	syncProjects,
+	planProjectSync,
+	applyProjectSync,
+	SyncEngineCallbacks,
+	ProjectSyncPlan,
+} from "./src/sync/engine";
+import {
+	ProjectPickerModal,
+	SyncPreviewModal,
+	SyncProgressModal,
+	PlannedEventModal,
+	PlannedEventsModal,
+	ConflictModal,
+	PushToFmodModal,
+	PlannedEventGroup,
+	SyncHistoryModal,
+	CompareExportsModal,
+	EventPickerModal,
+	EventMatch,
+} from "./src/ui/modals";
+import { findEventLinks, parseEventLink } from "./src/utils/event-links";
+import { resolveConflict } from "./src/sync/processor";
+import { createPlannedEventNote, createEventFromPlannedNote } from "./src/sync/planned";
 import { FMODSyncSettingTab } from "./src/ui/settings";
-import { isFmodRunning, navigateToEvent, waitForConnection } from "./src/fmod/connector";
+import {
+	isFmodRunning,
+	navigateToEvent,
+	waitForConnection,
+	readEventDocs,
+	writeEventDocs,
+} from "./src/fmod/connector";
+import { collectPushChanges } from "./src/markdown/managed";
 import { launchFmod } from "./src/fmod/launcher";
 
 // ============================================================================
@@ -19,13 +61,28 @@ export default class FMODSyncPlugin extends Plugin {
 	private settingsTab: FMODSyncSettingTab | null = null;
 	newerExports: Map<string, NewerExportInfo> = new Map();
 	private isSyncing = false;
+	// Auto-syncs waiting for the current sync to finish, latest export per project
+	private queuedAutoSyncs: Map<string, { project: FMODProjectConfig; newer: NewerExportInfo }> = new Map();
+	private exportWatcher: ExportWatcher | null = null;
+	private historyStore: SyncHistoryStore | null = null;
+	private audioMetadataStore: AudioMetadataStore | null = null;
 
 	async onload(): Promise<void> {
+		// Each sync's changes are stored next to the plugin's data, outside the settings
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.historyStore = new SyncHistoryStore(this.app.vault.adapter, `${pluginDir}/history`);
+		this.audioMetadataStore = new AudioMetadataStore(this.app.vault.adapter, `${pluginDir}/audio-metadata`);
+
 		await this.loadSettings();
 
 		// Check for newer exports on load (non-blocking)
 		this.checkForNewerExports();
 
+		// Watch export directories of auto-sync projects
+		this.exportWatcher = new ExportWatcher((project, newer) => this.autoSyncProject(project, newer));
+		this.exportWatcher.update(this.settings.projects);
+		this.register(() => this.exportWatcher?.stopAll());
+
 		// Register custom FMOD icon
 		addIcon("fmod-logo", FMOD_ICON_SVG);
 
@@ -43,6 +100,77 @@ export default class FMODSyncPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "preview-sync",
+			name: "Preview sync",
+			callback: () => {
+				this.runPreview();
+			},
+		});
+
+		this.addCommand({
+			id: "show-sync-history",
+			name: "Show sync history",
+			callback: () => {
+				this.showSyncHistory();
+			},
+		});
+
+		this.addCommand({
+			id: "compare-exports",
+			name: "Compare exports",
+			callback: () => {
+				this.runCompareExports();
+			},
+		});
+
+		this.addCommand({
+			id: "new-planned-event",
+			name: "New planned FMOD event",
+			callback: () => {
+				this.runNewPlannedEvent();
+			},
+		});
+
+		this.addCommand({
+			id: "show-planned-events",
+			name: "Show planned events",
+			callback: () => {
+				this.showPlannedEvents();
+			},
+		});
+
+		this.addCommand({
+			id: "push-to-fmod",
+			name: "Push note to FMOD",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				const guid = file ? this.app.metadataCache.getFileCache(file)?.frontmatter?.fmod_guid : null;
+				if (!file || !guid) return false;
+				if (!checking) {
+					this.pushNoteToFmod(file);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "create-fmod-event",
+			name: "Create FMOD event from planned note",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				const frontmatter = file ? this.app.metadataCache.getFileCache(file)?.frontmatter : null;
+				const project = file ? this.findProjectForNote(file.path) : undefined;
+				if (!file || !frontmatter || frontmatter.fmod_guid || !frontmatter.fmod_full_path || !project) {
+					return false;
+				}
+				if (!checking) {
+					this.createPlannedEventsInFmod(project, [file.path]);
+				}
+				return true;
+			},
+		});
+
 		// Add settings tab
 		this.settingsTab = new FMODSyncSettingTab(this.app, this);
 		this.addSettingTab(this.settingsTab);
@@ -52,7 +180,7 @@ export default class FMODSyncPlugin extends Plugin {
 			this.processEventLinks(element);
 		});
 
-		// Handle clicks anywhere that might contain event:/ text
+		// Handle clicks anywhere that might contain event:/ or fmod:// text
 		this.registerDomEvent(document, "click", (evt: MouseEvent) => {
 			const target = evt.target as HTMLElement;
 
@@ -61,41 +189,80 @@ export default class FMODSyncPlugin extends Plugin {
 				const eventPath = target.getAttribute("data-event-path");
 				if (eventPath) {
 					evt.preventDefault();
-					this.openFmodEvent(eventPath);
+					this.openFmodEvent(eventPath, target.getAttribute("data-project") || undefined);
 				}
 				return;
 			}
 
-			// Check for anchor links with event:/ href
+			// Check for anchor links with event:/ or fmod:// href
 			const link = target.closest("a");
 			if (link) {
-				const href = link.getAttribute("href");
-				if (href?.startsWith("event:/")) {
+				const parsed = parseEventLink(link.getAttribute("href") || "");
+				if (parsed) {
 					evt.preventDefault();
 					evt.stopPropagation();
-					this.openFmodEvent(href);
+					this.openFmodEvent(parsed.eventPath, parsed.project);
 					return;
 				}
 			}
 
-			// Check if clicked element's text contains event:/
+			// Check if clicked element's text starts with an event link
 			// This handles Properties panel, Bases, and other UI elements
 			const text = target.textContent || "";
-			const match = text.match(/^(event:\/[^\s"'<>)}\]]+)/);
-			if (match) {
+			const [first] = findEventLinks(text);
+			if (first && first.index === 0) {
 				evt.preventDefault();
 				evt.stopPropagation();
-				this.openFmodEvent(match[1]);
+				this.openFmodEvent(first.link.eventPath, first.link.project);
 			}
 		});
 	}
 
 	async loadSettings(): Promise<void> {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		await this.moveHistoryDetails();
+		await this.dropSettingsAudioCache();
+	}
+
+	/**
+	 * Older versions cached audio file headers in the settings. The cache now
+	 * has its own files and is rebuilt on the next sync, so drop the old one.
+	 */
+	private async dropSettingsAudioCache(): Promise<void> {
+		const legacy = this.settings as FMODSyncSettings & { audioMetadataCache?: unknown };
+		if (legacy.audioMetadataCache === undefined) return;
+
+		delete legacy.audioMetadataCache;
+		await this.saveData(this.settings);
+	}
+
+	/**
+	 * Older versions kept every sync's changes in the settings. Move them to
+	 * their own files, so the settings only hold the summaries.
+	 */
+	private async moveHistoryDetails(): Promise<void> {
+		let moved = false;
+		for (const entry of this.settings.syncHistory || []) {
+			const legacy = entry as SyncHistoryEntry & Partial<SyncHistoryDetails>;
+			if (!legacy.changes && !legacy.skipped) continue;
+
+			await this.historyStore?.write(entry.id, {
+				changes: legacy.changes || [],
+				skipped: legacy.skipped || [],
+			});
+			delete legacy.changes;
+			delete legacy.skipped;
+			moved = true;
+		}
+		if (moved) {
+			await this.saveData(this.settings);
+		}
 	}
 
 	async saveSettings(): Promise<void> {
 		await this.saveData(this.settings);
+		// Pick up auto-sync and JSON path changes
+		this.exportWatcher?.update(this.settings.projects);
 	}
 
 	/**
@@ -125,14 +292,33 @@ export default class FMODSyncPlugin extends Plugin {
 
 	/**
 	 * Get callbacks for sync engine.
+	 * When a progress modal is given, it receives progress and controls cancellation.
 	 */
-	private getSyncCallbacks(): SyncEngineCallbacks {
+	private getSyncCallbacks(progressModal?: SyncProgressModal): SyncEngineCallbacks {
 		return {
+			onProgress: progressModal ? (progress) => progressModal.update(progress) : undefined,
+			isCancelled: progressModal ? () => progressModal.cancelled : undefined,
+			onConflicts: (conflicts) => this.showConflicts(conflicts),
+			onHistory: (entry, details) => this.recordSyncHistory(entry, details),
 			onSaveSettings: () => this.saveSettings(),
 			refreshSettingsTab: () => this.refreshSettingsTab(),
+			audioMetadata: this.audioMetadataStore ?? undefined,
 		};
 	}
 
+	/**
+	 * Run a sync operation with a progress modal open until it finishes.
+	 */
+	private async withProgress<T>(run: (callbacks: SyncEngineCallbacks) => Promise<T>): Promise<T> {
+		const modal = new SyncProgressModal(this.app);
+		modal.open();
+		try {
+			return await run(this.getSyncCallbacks(modal));
+		} finally {
+			modal.finish();
+		}
+	}
+
 	// ========================================================================
 	// Main Sync Logic
 	// ========================================================================
@@ -159,7 +345,7 @@ export default class FMODSyncPlugin extends Plugin {
 			try {
 				await this.syncSingleProject(projects[0]);
 			} finally {
-				this.isSyncing = false;
+				this.endSync();
 			}
 		} else {
 			// Multiple projects - show picker
@@ -171,22 +357,355 @@ export default class FMODSyncPlugin extends Plugin {
 				this.isSyncing = true;
 				try {
 					if (item.type === "all") {
-						await syncProjects(this.app, projects, this.getSyncCallbacks());
+						await this.withProgress((callbacks) => syncProjects(this.app, projects, callbacks));
 					} else if (item.project) {
 						await this.syncSingleProject(item.project);
 					}
 				} finally {
-					this.isSyncing = false;
+					this.endSync();
+				}
+			}).open();
+		}
+	}
+
+	/**
+	 * Plan a sync without writing anything and show the changes for review.
+	 */
+	async runPreview(): Promise<void> {
+		if (this.isSyncing) {
+			new Notice("FMOD Sync: Sync already in progress");
+			return;
+		}
+
+		const projects = this.settings.projects;
+
+		if (projects.length === 0) {
+			new Notice(
+				"FMOD Sync: No projects configured. Add projects in settings."
+			);
+			return;
+		}
+
+		if (projects.length === 1) {
+			await this.previewProject(projects[0]);
+		} else {
+			new ProjectPickerModal(
+				this.app,
+				projects,
+				async (item) => {
+					if (item.project) {
+						await this.previewProject(item.project);
+					}
+				},
+				false
+			).open();
+		}
+	}
+
+	/**
+	 * Plan a single project's sync and open the preview modal.
+	 * Only the changes the user chooses to apply are written.
+	 */
+	async previewProject(project: FMODProjectConfig): Promise<void> {
+		if (this.isSyncing) {
+			new Notice("FMOD Sync: Sync already in progress");
+			return;
+		}
+
+		this.isSyncing = true;
+		let plan: ProjectSyncPlan | null;
+		try {
+			plan = await this.withProgress((callbacks) => planProjectSync(this.app, project, callbacks));
+		} finally {
+			this.endSync();
+		}
+		if (!plan) return;
+
+		const syncPlan = plan;
+		new SyncPreviewModal(this.app, syncPlan.projectName, syncPlan.changes, async (changes) => {
+			if (this.isSyncing) {
+				new Notice("FMOD Sync: Sync already in progress");
+				return;
+			}
+			this.isSyncing = true;
+			try {
+				await this.withProgress((callbacks) =>
+					applyProjectSync(this.app, syncPlan, changes, callbacks)
+				);
+			} finally {
+				this.endSync();
+			}
+		}).open();
+	}
+
+	/**
+	 * Add a sync to the history, dropping the oldest entries.
+	 * The summary goes into plugin data and the changes into the history folder.
+	 */
+	async recordSyncHistory(entry: SyncHistoryEntry, details: SyncHistoryDetails): Promise<void> {
+		await this.historyStore?.write(entry.id, details);
+
+		const history = [entry, ...(this.settings.syncHistory || [])];
+		this.settings.syncHistory = history.slice(0, MAX_HISTORY_ENTRIES);
+		await this.saveSettings();
+		await this.historyStore?.remove(history.slice(MAX_HISTORY_ENTRIES).map((e) => e.id));
+	}
+
+	/**
+	 * Open the sync history for all projects.
+	 */
+	showSyncHistory(): void {
+		new SyncHistoryModal(
+			this.app,
+			this.settings.syncHistory || [],
+			this.settings.projects,
+			async (entry) => (this.historyStore ? this.historyStore.read(entry.id) : null),
+			async () => {
+				const ids = (this.settings.syncHistory || []).map((e) => e.id);
+				this.settings.syncHistory = [];
+				await this.saveSettings();
+				await this.historyStore?.remove(ids);
+			}
+		).open();
+	}
+
+	/**
+	 * Pick a project and two of its exports, then write a changelog note between them.
+	 */
+	async runCompareExports(): Promise<void> {
+		const projects = this.settings.projects;
+
+		if (projects.length === 0) {
+			new Notice(
+				"FMOD Sync: No projects configured. Add projects in settings."
+			);
+			return;
+		}
+
+		const openModal = async (project: FMODProjectConfig) => {
+			const exports = await listProjectExports(project.jsonFilePath);
+			new CompareExportsModal(this.app, exports, async (fromPath, toPath) => {
+				try {
+					const file = await writeExportChangelog(this.app, project, fromPath, toPath);
+					await this.app.workspace.getLeaf(false).openFile(file);
+				} catch (error) {
+					new Notice(`FMOD Sync: Could not compare exports.\n${error instanceof Error ? error.message : error}`);
+				}
+			}).open();
+		};
+
+		if (projects.length === 1) {
+			await openModal(projects[0]);
+		} else {
+			new ProjectPickerModal(
+				this.app,
+				projects,
+				async (item) => {
+					if (item.project) {
+						await openModal(item.project);
+					}
+				},
+				false,
+				"Select the project to compare exports for..."
+			).open();
+		}
+	}
+
+	/**
+	 * Ask the user how to resolve notes edited in both Obsidian and FMOD, then write them.
+	 */
+	showConflicts(conflicts: SyncChange[]): void {
+		new ConflictModal(this.app, conflicts, async (resolutions) => {
+			let resolved = 0;
+			let changed = 0;
+			for (const [change, resolution] of resolutions) {
+				try {
+					const staleReason = await resolveConflict(this.app, change, resolution);
+					if (staleReason) {
+						console.warn(`FMOD Sync: Left ${change.path} unchanged: ${staleReason}`);
+						changed++;
+					} else {
+						resolved++;
+					}
+				} catch (error) {
+					console.error(`FMOD Sync: Error resolving conflict in ${change.path}:`, error);
+				}
+			}
+			new Notice(
+				`FMOD Sync: Resolved ${resolved} of ${resolutions.size} conflict(s).` +
+				(changed > 0 ? ` ${changed} note(s) were edited meanwhile and left as they are. Sync again to resolve them.` : "")
+			);
+		}).open();
+	}
+
+	// ========================================================================
+	// Planned Events
+	// ========================================================================
+
+	/**
+	 * Pick a project and create a placeholder note for an event that isn't in FMOD yet.
+	 */
+	async runNewPlannedEvent(): Promise<void> {
+		const projects = this.settings.projects.filter((p) => p.outputFolder);
+
+		if (projects.length === 0) {
+			new Notice(
+				"FMOD Sync: No projects configured. Add projects in settings."
+			);
+			return;
+		}
+
+		const openModal = (project: FMODProjectConfig) => {
+			new PlannedEventModal(this.app, async (fullPath, bank, space) => {
+				try {
+					const file = await createPlannedEventNote(this.app, project, fullPath, bank, space);
+					await this.app.workspace.getLeaf(false).openFile(file);
+				} catch (error) {
+					new Notice(`FMOD Sync: Could not create planned event.\n${error instanceof Error ? error.message : error}`);
 				}
 			}).open();
+		};
+
+		if (projects.length === 1) {
+			openModal(projects[0]);
+		} else {
+			new ProjectPickerModal(
+				this.app,
+				projects,
+				(item) => {
+					if (item.project) {
+						openModal(item.project);
+					}
+				},
+				false,
+				"Select the project for the planned event..."
+			).open();
+		}
+	}
+
+	/**
+	 * List planned notes across all projects that no event adopted in the last sync.
+	 * Notes deleted since then are left out.
+	 */
+	showPlannedEvents(): void {
+		const plannedByProject: PlannedEventGroup[] = this.settings.projects.map((project) => ({
+			project,
+			projectName: project.fmodProjectName || project.outputFolder,
+			planned: (project.plannedEvents ?? [])
+				.filter((p) => this.app.vault.getAbstractFileByPath(p.path) instanceof TFile)
+				.sort((a, b) => a.fullPath.localeCompare(b.fullPath)),
+		}));
+
+		new PlannedEventsModal(
+			this.app,
+			plannedByProject,
+			(path) => {
+				void this.app.workspace.openLinkText(path, "", false);
+			},
+			(group) => this.createPlannedEventsInFmod(group.project, group.planned.map((p) => p.path))
+		).open();
+	}
+
+	/**
+	 * Create FMOD events for planned notes in the project's running FMOD Studio session.
+	 * Each created event's GUID is written back to its note.
+	 */
+	async createPlannedEventsInFmod(project: FMODProjectConfig, notePaths: string[]): Promise<void> {
+		if (!project.fmodProjectName) {
+			new Notice("FMOD: Sync the project once so the plugin knows which FMOD project to open");
+			return;
+		}
+		if (!(await this.connectToFmod(project.fmodProjectName))) {
+			return;
+		}
+
+		let created = 0;
+		const failed: string[] = [];
+		for (const notePath of notePaths) {
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (!(file instanceof TFile)) continue;
+			try {
+				await createEventFromPlannedNote(this.app, file);
+				created++;
+			} catch (error) {
+				console.error(`FMOD Sync: Error creating event for ${notePath}:`, error);
+				failed.push(`${file.basename}: ${error instanceof Error ? error.message : error}`);
+			}
+		}
+
+		const summary = [`FMOD: Created ${created} event(s) in FMOD Studio`, ...failed.slice(0, 3)];
+		if (failed.length > 3) {
+			summary.push(`...and ${failed.length - 3} more. Check console for details.`);
+		}
+		new Notice(summary.join("\n"), 5000);
+	}
+
+	/**
+	 * Sync an auto-sync project quietly from a newly written export.
+	 * The project only switches to the new export once it has been read and synced.
+	 * Exports written during another sync are synced when that sync finishes.
+	 */
+	async autoSyncProject(project: FMODProjectConfig, newer: NewerExportInfo): Promise<void> {
+		// Flag the newer export in the meantime, so it can also be synced manually
+		this.newerExports.set(project.id, newer);
+		if (this.isSyncing) {
+			this.queuedAutoSyncs.set(project.id, { project, newer });
+			return;
+		}
+
+		this.isSyncing = true;
+		try {
+			const callbacks = this.getSyncCallbacks();
+			const plan = await planProjectSync(this.app, { ...project, jsonFilePath: newer.filePath }, callbacks, true);
+			if (plan) {
+				const previousPath = project.jsonFilePath;
+				project.jsonFilePath = newer.filePath;
+				let stats: SyncStats;
+				try {
+					stats = await applyProjectSync(this.app, { ...plan, project }, plan.changes, callbacks, true);
+				} catch (error) {
+					// Keep pointing at the export the vault was last synced from
+					project.jsonFilePath = previousPath;
+					await this.saveSettings();
+					throw error;
+				}
+				this.newerExports.delete(project.id);
+
+				const name = project.fmodProjectName || newer.projectName;
+				new Notice(
+					`FMOD Sync: Auto-synced "${name}" (${stats.created} created, ${stats.updated} updated, ${stats.moved} moved)`,
+					3000
+				);
+			} else {
+				console.warn(`FMOD Sync: Could not auto-sync from ${newer.filePath}`);
+			}
+		} finally {
+			this.endSync();
 		}
+
+		this.refreshSettingsTab();
+	}
+
+	/**
+	 * Mark the current sync as finished and start the next queued auto-sync, if any.
+	 */
+	private endSync(): void {
+		this.isSyncing = false;
+
+		const next = this.queuedAutoSyncs.values().next().value;
+		if (!next) return;
+		this.queuedAutoSyncs.delete(next.project.id);
+		this.autoSyncProject(next.project, next.newer).catch((error) => {
+			console.error(`FMOD Sync: Auto-sync failed for ${next.newer.filePath}:`, error);
+			new Notice(`FMOD Sync: Auto-sync failed: ${error instanceof Error ? error.message : error}`);
+		});
 	}
 
 	/**
 	 * Sync a single project. Exposed for use by settings tab.
 	 */
 	async syncSingleProject(project: FMODProjectConfig): Promise<unknown> {
-		return syncSingleProject(this.app, project, this.getSyncCallbacks());
+		return this.withProgress((callbacks) => syncSingleProject(this.app, project, callbacks));
 	}
 
 	// ========================================================================
@@ -194,7 +713,7 @@ export default class FMODSyncPlugin extends Plugin {
 	// ========================================================================
 
 	/**
-	 * Process an element to find and make event:/ paths clickable.
+	 * Process an element to find and make event:/ paths and fmod:// links clickable.
 	 */
 	processEventLinks(element: HTMLElement): void {
 		// Find all text nodes containing event:/
@@ -223,27 +742,26 @@ export default class FMODSyncPlugin extends Plugin {
 		// Process each text node
 		for (const textNode of textNodes) {
 			const text = textNode.textContent || "";
-			// Match event:/path/to/event (stops at whitespace, quotes, or end)
-			const regex = /event:\/[^\s"'<>)}\]]+/g;
-			let match;
 			let lastIndex = 0;
 			const fragments: (string | HTMLElement)[] = [];
 
-			while ((match = regex.exec(text)) !== null) {
+			for (const { link, index, length } of findEventLinks(text)) {
 				// Add text before match
-				if (match.index > lastIndex) {
-					fragments.push(text.slice(lastIndex, match.index));
+				if (index > lastIndex) {
+					fragments.push(text.slice(lastIndex, index));
 				}
 
-				// Create clickable span
-				const eventPath = match[0];
+				// Create clickable span, keeping the project for qualified links
 				const span = document.createElement("span");
 				span.className = "fmod-event-link";
-				span.setAttribute("data-event-path", eventPath);
-				span.textContent = eventPath;
+				span.setAttribute("data-event-path", link.eventPath);
+				if (link.project) {
+					span.setAttribute("data-project", link.project);
+				}
+				span.textContent = text.slice(index, index + length);
 				fragments.push(span);
 
-				lastIndex = regex.lastIndex;
+				lastIndex = index + length;
 			}
 
 			// Add remaining text
@@ -252,7 +770,7 @@ export default class FMODSyncPlugin extends Plugin {
 			}
 
 			// Replace text node with fragments if we found matches
-			if (fragments.length > 1) {
+			if (fragments.length > 1 || typeof fragments[0] !== "string") {
 				const container = document.createDocumentFragment();
 				for (const frag of fragments) {
 					if (typeof frag === "string") {
@@ -268,26 +786,96 @@ export default class FMODSyncPlugin extends Plugin {
 
 	/**
 	 * Open an FMOD event by its path (e.g., "event:/Music/Hub").
+	 * When no project is given and several projects have the path, asks which one to open.
 	 * Launches FMOD Studio if needed and navigates to the event.
 	 */
-	async openFmodEvent(eventPath: string): Promise<void> {
-		// 1. Find note with matching fmod_full_path
-		const eventInfo = this.findEventByPath(eventPath);
-		if (!eventInfo) {
-			new Notice("FMOD: Event not found in vault");
+	async openFmodEvent(eventPath: string, projectName?: string): Promise<void> {
+		// 1. Find notes with matching fmod_full_path (and project, if qualified)
+		const matches = this.findEventsByPath(eventPath, projectName);
+		if (matches.length === 0) {
+			new Notice(
+				projectName
+					? `FMOD: Event not found in vault for project "${projectName}"`
+					: "FMOD: Event not found in vault"
+			);
+			return;
+		}
+
+		if (matches.length > 1) {
+			new EventPickerModal(this.app, matches, (match) => {
+				void this.navigateToFmodEvent(match);
+			}).open();
 			return;
 		}
 
-		// 2. Find project config by name
+		await this.navigateToFmodEvent(matches[0]);
+	}
+
+	/**
+	 * Connect to an event's project in FMOD Studio and show the event.
+	 */
+	private async navigateToFmodEvent(eventInfo: EventMatch): Promise<void> {
+		// 2. Make sure FMOD Studio is running with the event's project
+		if (!(await this.connectToFmod(eventInfo.project))) {
+			return;
+		}
+
+		// 3. Navigate to the event
+		const result = await navigateToEvent(eventInfo.guid);
+		if (!result.success) {
+			new Notice(`FMOD: ${result.error || "Failed to navigate"}`);
+		}
+	}
+
+	/**
+	 * Find events in the vault by their full path, optionally limited to one project.
+	 * Notes of events removed from FMOD are left out.
+	 * Returns the GUID, project name and note path of each match.
+	 */
+	findEventsByPath(eventPath: string, projectName?: string): EventMatch[] {
+		const matches: EventMatch[] = [];
+		const project = projectName?.toLowerCase();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			// Planned notes have a path but no event to open yet
+			if (frontmatter?.fmod_full_path !== eventPath || !frontmatter.fmod_guid) continue;
+			// Notes of deleted events (archived ones included) keep a GUID FMOD no longer has
+			if (frontmatter.fmod_status === "removed") continue;
+			if (project && String(frontmatter.fmod_project || "").toLowerCase() !== project) continue;
+
+			matches.push({
+				guid: frontmatter.fmod_guid as string,
+				project: frontmatter.fmod_project as string,
+				notePath: file.path,
+			});
+		}
+		return matches;
+	}
+
+	/**
+	 * Find the project whose vault folder contains a note.
+	 */
+	findProjectForNote(notePath: string): FMODProjectConfig | undefined {
+		return this.settings.projects.find(
+			(p) => p.outputFolder && notePath.startsWith(`${normalizePath(p.outputFolder)}/`)
+		);
+	}
+
+	/**
+	 * Connect to FMOD Studio, launching the project's installation if it isn't running.
+	 * Shows a notice and returns false if the connection can't be made.
+	 */
+	async connectToFmod(projectName: string): Promise<boolean> {
+		// Find project config by name
 		const projectConfig = this.settings.projects.find(
-			(p) => p.fmodProjectName === eventInfo.project
+			(p) => p.fmodProjectName === projectName
 		);
 		if (!projectConfig?.fmodProjectPath) {
 			new Notice("FMOD: Project not configured");
-			return;
+			return false;
 		}
 
-		// 3. Find FMOD installation
+		// Find FMOD installation
 		const installation =
 			this.settings.fmodInstallations.find(
 				(i) => i.id === projectConfig.selectedFmodInstallationId
@@ -295,13 +883,13 @@ export default class FMODSyncPlugin extends Plugin {
 
 		if (!installation) {
 			new Notice("FMOD: No FMOD Studio installation configured");
-			return;
+			return false;
 		}
 
-		// 4. Check if FMOD is already connected
+		// Check if FMOD is already connected
 		let connected = await isFmodRunning();
 
-		// 5. Launch FMOD if not running
+		// Launch FMOD if not running
 		if (!connected) {
 			new Notice("FMOD: Launching FMOD Studio...");
 			launchFmod(installation.path, projectConfig.fmodProjectPath);
@@ -310,30 +898,48 @@ export default class FMODSyncPlugin extends Plugin {
 
 		if (!connected) {
 			new Notice("FMOD: Could not connect to FMOD Studio");
-			return;
-		}
-
-		// 6. Navigate to the event
-		const result = await navigateToEvent(eventInfo.guid);
-		if (!result.success) {
-			new Notice(`FMOD: ${result.error || "Failed to navigate"}`);
+			return false;
 		}
+		return true;
 	}
 
 	/**
-	 * Find an event in the vault by its full path.
-	 * Returns the GUID and project name if found.
+	 * Write an event note's Notes section and edited user properties back to FMOD Studio.
+	 * The changes are compared with the event's current values and confirmed first.
 	 */
-	findEventByPath(eventPath: string): { guid: string; project: string } | null {
-		for (const file of this.app.vault.getMarkdownFiles()) {
-			const cache = this.app.metadataCache.getFileCache(file);
-			if (cache?.frontmatter?.fmod_full_path === eventPath) {
-				return {
-					guid: cache.frontmatter.fmod_guid as string,
-					project: cache.frontmatter.fmod_project as string,
-				};
-			}
+	async pushNoteToFmod(file: TFile): Promise<void> {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const guid = frontmatter?.fmod_guid as string | undefined;
+		const project = frontmatter?.fmod_project as string | undefined;
+		if (!guid || !project) {
+			new Notice("FMOD: This note is not linked to an FMOD event");
+			return;
+		}
+
+		if (!(await this.connectToFmod(project))) {
+			return;
+		}
+
+		const current = await readEventDocs(guid);
+		if (!current.docs) {
+			new Notice(`FMOD: ${current.error || "Failed to read event"}`);
+			return;
+		}
+
+		const content = await this.app.vault.read(file);
+		const changes = collectPushChanges(content, current.docs);
+		if (changes.length === 0) {
+			new Notice("FMOD: Notes and user properties already match FMOD");
+			return;
 		}
-		return null;
+
+		new PushToFmodModal(this.app, file.basename, changes, async (selected) => {
+			const result = await writeEventDocs(guid, selected);
+			if (result.success) {
+				new Notice(`FMOD: Pushed ${selected.length} change(s) to "${file.basename}". Save the project in FMOD Studio to keep them.`);
+			} else {
+				new Notice(`FMOD: ${result.error || "Failed to push changes"}`);
+			}
+		}).open();
 	}
 }
@@ -6,19 +6,8 @@ studio.menu.addMenuItem({
         // -------------------------
         // Helpers (reused from CSV Exporter)
         // -------------------------
-        function safeGet(obj, keyPath) {
-            try {
-                var parts = keyPath.split(".");
-                var cur = obj;
-                for (var i = 0; i < parts.length; i++) {
-                    if (!cur) return "";
-                    cur = cur[parts[i]];
-                }
-                return (cur === undefined || cur === null) ? "" : cur;
-            } catch (e) {
-                return "";
-            }
-        }
+        // Inlined from scripts/fmod-fields.js by the plugin build
+        // @include fmod-fields.js
 
         function tryCall(fn, fallback) {
             try { return fn(); } catch (e) { return fallback; }
@@ -123,38 +112,15 @@ studio.menu.addMenuItem({
 
                     var key = tryCall(function () { return p.name; }, "");
                     var typ = tryCall(function () { return p.type; }, "");
-                    var val = "";
-
-                    val = tryCall(function () { return p.value; }, "");
-                    if (val === "" || val === undefined || val === null) {
-                        val = tryCall(function () { return p.stringValue; }, "");
-                    }
-                    if (val === "" || val === undefined || val === null) {
-                        val = tryCall(function () { return p.intValue; }, "");
-                    }
-                    if (val === "" || val === undefined || val === null) {
-                        val = tryCall(function () { return p.floatValue; }, "");
-                    }
-                    if (val === "" || val === undefined || val === null) {
-                        val = tryCall(function () { return p.boolValue; }, "");
-                    }
+                    var val = getUserPropertyValue(p);
 
-                    props.push({ name: key, type: typ, value: val });
+                    props.push({ name: String(key), type: (typ === undefined || typ === null) ? "" : String(typ), value: val });
                 }
                 props.sort(function(a, b) { return a.name < b.name ? -1 : 1; });
             } catch (err) { }
             return props;
         }
 
-        function getNotesString(e) {
-            var candidates = ["notes", "note", "comment", "comments", "description"];
-            for (var i = 0; i < candidates.length; i++) {
-                var v = safeGet(e, candidates[i]);
-                if (v !== "" && v !== null && v !== undefined) return v;
-            }
-            return "";
-        }
-
         function getParameterDetails(p) {
             var name = tryCall(function () { return (p.presetOwner) ? p.presetOwner.name : p.name; }, "");
             if (!name) name = tryCall(function () { return p.name; }, "");
@@ -172,16 +138,119 @@ studio.menu.addMenuItem({
                 labelStr = labels.join(", ");
             }
 
+            // Missing values would be dropped from the JSON; write them as empty strings
             return {
-                name: name,
-                type: typ,
-                min: min,
-                max: max,
-                initial: init,
+                name: String(name),
+                type: (typ === undefined || typ === null) ? "" : String(typ),
+                min: (min === undefined || min === null) ? "" : min,
+                max: (max === undefined || max === null) ? "" : max,
+                initial: (init === undefined || init === null) ? "" : init,
                 labels: labelStr
             };
         }
 
+        function toSeconds(value) {
+            var n = Number(value);
+            return isFinite(n) ? n : 0;
+        }
+
+        // Timeline length, markers, tempo and loop regions. Positions are in seconds.
+        function getTimeline(e) {
+            var result = { length: 0, markers: [], tempo: [], loop_regions: [] };
+            var timeline = tryCall(function () { return e.timeline; }, null);
+            if (!timeline) return result;
+
+            var markers = tryCall(function () { return timeline.relationships.markers.destinations; }, []) || [];
+            for (var i = 0; i < markers.length; i++) {
+                var m = markers[i];
+                var type = tryCall(function () { return m.entity; }, "");
+                var position = toSeconds(tryCall(function () { return m.position; }, 0));
+                var length = toSeconds(tryCall(function () { return m.length; }, 0));
+                result.length = Math.max(result.length, position + length);
+
+                if (type === "NamedMarker") {
+                    result.markers.push({ type: "destination", name: String(tryCall(function () { return m.name; }, "") || ""), position: position });
+                } else if (type === "TransitionMarker" || type === "TransitionRegion") {
+                    var marker = {
+                        type: "transition",
+                        name: String(tryCall(function () { return m.name; }, "") || ""),
+                        position: position,
+                        destination: String(tryCall(function () { return m.destination ? m.destination.name : ""; }, "") || "")
+                    };
+                    if (type === "TransitionRegion") marker.length = length;
+                    result.markers.push(marker);
+                } else if (type === "TempoMarker") {
+                    var numerator = tryCall(function () { return m.timeSignatureNumerator; }, 4) || 4;
+                    var denominator = tryCall(function () { return m.timeSignatureDenominator; }, 4) || 4;
+                    result.tempo.push({
+                        position: position,
+                        tempo: toSeconds(tryCall(function () { return m.tempo; }, 120)) || 120,
+                        time_signature: numerator + "/" + denominator
+                    });
+                } else if (type === "LoopRegion") {
+                    result.loop_regions.push({ start: position, end: position + length });
+                }
+            }
+
+            // The timeline is as long as its last instrument
+            var tracks = tryCall(function () { return e.groupTracks; }, []) || [];
+            for (var t = 0; t < tracks.length; t++) {
+                var modules = tryCall(function () { return tracks[t].modules; }, []) || [];
+                for (var j = 0; j < modules.length; j++) {
+                    var mod = modules[j];
+                    var onTimeline = tryCall(function () { return mod.parameter && mod.parameter.entity === "Timeline"; }, false);
+                    if (!onTimeline) continue;
+                    var end = toSeconds(tryCall(function () { return mod.start; }, 0)) + toSeconds(tryCall(function () { return mod.length; }, 0));
+                    result.length = Math.max(result.length, end);
+                }
+            }
+
+            var byPosition = function (a, b) { return (a.position !== undefined ? a.position : a.start) - (b.position !== undefined ? b.position : b.start); };
+            result.markers.sort(byPosition);
+            result.tempo.sort(byPosition);
+            result.loop_regions.sort(byPosition);
+            return result;
+        }
+
+        function getOutputBusPath(e) {
+            return tryCall(function () {
+                var output = e.mixerInput ? e.mixerInput.output : null;
+                return output ? output.getPath() : "";
+            }, "");
+        }
+
+        // -------------------------
+        // Banks, buses, VCAs and snapshots
+        // -------------------------
+        function collectStructure(modelName, withParent) {
+            var items = [];
+            var instances = tryCall(function () { return studio.project.model[modelName].findInstances(); }, []);
+            for (var i = 0; i < instances.length; i++) {
+                var obj = instances[i];
+                var objPath = tryCall(function () { return obj.getPath(); }, "");
+                if (!objPath) continue;
+
+                var parent = "";
+                if (withParent) {
+                    parent = tryCall(function () { return obj.output ? obj.output.getPath() : ""; }, "");
+                }
+
+                items.push({
+                    guid: obj.id,
+                    name: tryCall(function () { return obj.name; }, "") || "",
+                    path: objPath,
+                    parent: parent || "",
+                    notes: getNotes(obj)
+                });
+            }
+            return items;
+        }
+
+        function sortByPath(items) {
+            items.sort(function (a, b) { return a.path < b.path ? -1 : (a.path > b.path ? 1 : 0); });
+            return items;
+        }
+
         function collectEventParameters(e) {
             var byName = {};
 
@@ -215,6 +284,84 @@ studio.menu.addMenuItem({
             return names.map(function (n) { return byName[n]; });
         }
 
+        // Find the event that owns a sound in its timeline or on a parameter sheet
+        function findOwningEventId(sound) {
+            // Get the event via the parameter (Timeline) -> event relationship
+            var eventId = null;
+            try {
+                var timeline = sound.parameter;
+                if (!timeline && sound.relationships && sound.relationships.parameter &&
+                    sound.relationships.parameter.destinations &&
+                    sound.relationships.parameter.destinations.length > 0) {
+                    timeline = sound.relationships.parameter.destinations[0];
+                }
+
+                if (timeline) {
+                    // Timeline might be the actual timeline or a ParameterProxy
+                    var event = null;
+                    if (timeline.entity === "Timeline") {
+                        // Direct timeline - get event
+                        if (timeline.relationships && timeline.relationships.event &&
+                            timeline.relationships.event.destinations &&
+                            timeline.relationships.event.destinations.length > 0) {
+                            event = timeline.relationships.event.destinations[0];
+                        }
+                    } else if (timeline.entity === "ParameterProxy") {
+                        // Need to find the event that owns this parameter
+                        // Check the audioTrack -> event path instead
+                        var audioTrack = sound.audioTrack;
+                        if (!audioTrack && sound.relationships && sound.relationships.audioTrack &&
+                            sound.relationships.audioTrack.destinations &&
+                            sound.relationships.audioTrack.destinations.length > 0) {
+                            audioTrack = sound.relationships.audioTrack.destinations[0];
+                        }
+                        if (audioTrack) {
+                            // Track has event relationship
+                            if (audioTrack.relationships && audioTrack.relationships.event &&
+                                audioTrack.relationships.event.destinations &&
+                                audioTrack.relationships.event.destinations.length > 0) {
+                                event = audioTrack.relationships.event.destinations[0];
+                            }
+                        }
+                    }
+
+                    if (event && event.id) {
+                        eventId = event.id;
+                    }
+                }
+
+                // Fallback: try audioTrack -> event
+                if (!eventId) {
+                    var audioTrack = sound.audioTrack;
+                    if (!audioTrack && sound.relationships && sound.relationships.audioTrack &&
+                        sound.relationships.audioTrack.destinations &&
+                        sound.relationships.audioTrack.destinations.length > 0) {
+                        audioTrack = sound.relationships.audioTrack.destinations[0];
+                    }
+                    if (audioTrack) {
+                        if (audioTrack.relationships && audioTrack.relationships.event &&
+                            audioTrack.relationships.event.destinations &&
+                            audioTrack.relationships.event.destinations.length > 0) {
+                            var event = audioTrack.relationships.event.destinations[0];
+                            if (event && event.id) {
+                                eventId = event.id;
+                            }
+                        }
+                    }
+                }
+            } catch (err) { }
+
+            // Sounds inside a multi sound belong to the multi sound's event
+            if (!eventId) {
+                var owner = tryCall(function () { return sound.owner; }, null);
+                if (owner && owner !== sound) {
+                    eventId = findOwningEventId(owner);
+                }
+            }
+
+            return eventId;
+        }
+
         // -------------------------
         // Audio file extraction - build event->audiofiles map
         // -------------------------
@@ -247,70 +394,7 @@ studio.menu.addMenuItem({
 
                     if (!audioFile) continue;
 
-                    // Get the event via the parameter (Timeline) -> event relationship
-                    var eventId = null;
-                    try {
-                        var timeline = sound.parameter;
-                        if (!timeline && sound.relationships && sound.relationships.parameter &&
-                            sound.relationships.parameter.destinations &&
-                            sound.relationships.parameter.destinations.length > 0) {
-                            timeline = sound.relationships.parameter.destinations[0];
-                        }
-
-                        if (timeline) {
-                            // Timeline might be the actual timeline or a ParameterProxy
-                            var event = null;
-                            if (timeline.entity === "Timeline") {
-                                // Direct timeline - get event
-                                if (timeline.relationships && timeline.relationships.event &&
-                                    timeline.relationships.event.destinations &&
-                                    timeline.relationships.event.destinations.length > 0) {
-                                    event = timeline.relationships.event.destinations[0];
-                                }
-                            } else if (timeline.entity === "ParameterProxy") {
-                                // Need to find the event that owns this parameter
-                                // Check the audioTrack -> event path instead
-                                var audioTrack = sound.audioTrack;
-                                if (!audioTrack && sound.relationships && sound.relationships.audioTrack &&
-                                    sound.relationships.audioTrack.destinations &&
-                                    sound.relationships.audioTrack.destinations.length > 0) {
-                                    audioTrack = sound.relationships.audioTrack.destinations[0];
-                                }
-                                if (audioTrack) {
-                                    // Track has event relationship
-                                    if (audioTrack.relationships && audioTrack.relationships.event &&
-                                        audioTrack.relationships.event.destinations &&
-                                        audioTrack.relationships.event.destinations.length > 0) {
-                                        event = audioTrack.relationships.event.destinations[0];
-                                    }
-                                }
-                            }
-
-                            if (event && event.id) {
-                                eventId = event.id;
-                            }
-                        }
-
-                        // Fallback: try audioTrack -> event
-                        if (!eventId) {
-                            var audioTrack = sound.audioTrack;
-                            if (!audioTrack && sound.relationships && sound.relationships.audioTrack &&
-                                sound.relationships.audioTrack.destinations &&
-                                sound.relationships.audioTrack.destinations.length > 0) {
-                                audioTrack = sound.relationships.audioTrack.destinations[0];
-                            }
-                            if (audioTrack) {
-                                if (audioTrack.relationships && audioTrack.relationships.event &&
-                                    audioTrack.relationships.event.destinations &&
-                                    audioTrack.relationships.event.destinations.length > 0) {
-                                    var event = audioTrack.relationships.event.destinations[0];
-                                    if (event && event.id) {
-                                        eventId = event.id;
-                                    }
-                                }
-                            }
-                        }
-                    } catch (err) { }
+                    var eventId = findOwningEventId(sound);
 
                     if (!eventId) continue;
 
@@ -354,6 +438,38 @@ studio.menu.addMenuItem({
             return eventAudioFiles;
         }
 
+        // -------------------------
+        // Referenced events - build event->referenced event GUIDs map
+        // -------------------------
+        function buildEventReferencesMap() {
+            var eventReferences = {}; // eventId -> array of referenced event GUIDs
+
+            // Event instruments play nested and referenced events
+            try {
+                var eventSounds = studio.project.model.EventSound.findInstances();
+
+                for (var i = 0; i < eventSounds.length; i++) {
+                    var sound = eventSounds[i];
+                    var referenced = tryCall(function () { return sound.event; }, null);
+                    if (!referenced || !referenced.id) continue;
+
+                    var eventId = findOwningEventId(sound);
+                    if (!eventId || eventId === referenced.id) continue;
+
+                    if (!eventReferences[eventId]) {
+                        eventReferences[eventId] = [];
+                    }
+                    if (eventReferences[eventId].indexOf(referenced.id) < 0) {
+                        eventReferences[eventId].push(referenced.id);
+                    }
+                }
+            } catch (err) {
+                console.log("Error collecting event instruments: " + err);
+            }
+
+            return eventReferences;
+        }
+
         // -------------------------
         // Timestamp helpers
         // -------------------------
@@ -513,6 +629,9 @@ studio.menu.addMenuItem({
         // Build event -> audio files map
         var eventAudioFilesMap = buildEventAudioFilesMap();
 
+        // Build event -> referenced events map
+        var eventReferencesMap = buildEventReferencesMap();
+
         // Collect all FMOD events
         var allEvents = studio.project.model.Event.findInstances();
         allEvents.sort(function (a, b) {
@@ -559,12 +678,15 @@ studio.menu.addMenuItem({
                     folder_path: folderPath,
                     banks: getBankNames(e),
                     loop_type: detectLoopType(e),
+                    timeline: getTimeline(e),
                     space: detectSpace(e),
                     max_voices: maxVoices,
-                    notes: getNotesString(e),
+                    notes: getNotes(e),
                     parameters: collectEventParameters(e),
                     user_properties: getUserProperties(e),
-                    audio_files: audioFiles
+                    audio_files: audioFiles,
+                    output_bus: getOutputBusPath(e),
+                    referenced_events: (eventReferencesMap[eventGuid] || []).sort()
                 };
 
                 eventsData.push(eventData);
@@ -574,6 +696,19 @@ studio.menu.addMenuItem({
             }
         }
 
+        var banksData = sortByPath(collectStructure("Bank", false));
+        var busesData = sortByPath(
+            collectStructure("MixerMaster", false)
+                .concat(collectStructure("MixerGroup", true))
+                .concat(collectStructure("MixerReturn", true))
+        );
+        // The master bus has no name of its own
+        for (var b = 0; b < busesData.length; b++) {
+            if (busesData[b].path === "bus:/" && !busesData[b].name) busesData[b].name = "Master Bus";
+        }
+        var vcasData = sortByPath(collectStructure("MixerVCA", false));
+        var snapshotsData = sortByPath(collectStructure("Snapshot", false));
+
         // Get FMOD Studio version
         // Try to extract from project path first (most reliable)
         // Path format: .../FMOD Studio/2.02.33/...
@@ -617,13 +752,19 @@ studio.menu.addMenuItem({
         }
 
         // Build final JSON structure
+        // schema_version must match EXPORT_SCHEMA_VERSION in the plugin
         var exportData = {
+            schema_version: 5,
             exported_at: getISOTimestamp(),
             fmod_version: fmodVersion,
             project_name: projectName,
             project_path: projectPath,
             event_count: eventsData.length,
-            events: eventsData
+            events: eventsData,
+            banks: banksData,
+            buses: busesData,
+            vcas: vcasData,
+            snapshots: snapshotsData
         };
 
         // Write JSON file
@@ -642,6 +783,8 @@ studio.menu.addMenuItem({
                 "----------------------------------\n" +
                 "Events exported: " + eventsData.length + "\n" +
                 "Audio files found: " + totalAudioFiles + "\n" +
+                "Banks: " + banksData.length + ", buses: " + busesData.length +
+                ", VCAs: " + vcasData.length + ", snapshots: " + snapshotsData.length + "\n" +
                 "Time: " + elapsedMs + "ms\n" +
                 "----------------------------------\n" +
                 "Output: " + outputPath + "\n\n" +
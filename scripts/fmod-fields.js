@@ -0,0 +1,47 @@
+// Notes and user property values live in different fields depending on the FMOD Studio build.
+// These helpers are embedded in the export script and in the plugin's push commands,
+// so both read and write the same fields.
+var NOTES_FIELDS = ["notes", "note", "comment", "comments", "description"];
+var USER_PROPERTY_VALUE_FIELDS = ["value", "stringValue", "intValue", "floatValue", "boolValue"];
+
+function readField(obj, field) {
+    try { return obj[field]; } catch (e) { return undefined; }
+}
+
+function isEmptyValue(v) {
+    return v === "" || v === undefined || v === null;
+}
+
+// The first field holding a value, else the first field the object has, else the fallback
+function findField(obj, fields, fallback) {
+    for (var i = 0; i < fields.length; i++) {
+        if (!isEmptyValue(readField(obj, fields[i]))) return fields[i];
+    }
+    for (var j = 0; j < fields.length; j++) {
+        if (readField(obj, fields[j]) !== undefined) return fields[j];
+    }
+    return fallback;
+}
+
+function getNotes(obj) {
+    var v = readField(obj, findField(obj, NOTES_FIELDS, "note"));
+    return isEmptyValue(v) ? "" : String(v);
+}
+
+function setNotes(obj, text) {
+    obj[findField(obj, NOTES_FIELDS, "note")] = text;
+}
+
+function getUserPropertyValue(prop) {
+    var v = readField(prop, findField(prop, USER_PROPERTY_VALUE_FIELDS, "value"));
+    return isEmptyValue(v) ? "" : v;
+}
+
+// Write a value typed in a note, keeping the type of the property's current value
+function setUserPropertyValue(prop, text) {
+    var field = findField(prop, USER_PROPERTY_VALUE_FIELDS, "value");
+    var current = readField(prop, field);
+    if (typeof current === "number") prop[field] = Number(text);
+    else if (typeof current === "boolean") prop[field] = text === "true";
+    else prop[field] = text;
+}
@@ -1,21 +1,85 @@
 import * as fs from "fs";
 import * as path from "path";
-import { FMOD_SCRIPT_FILENAME, FMOD_SCRIPT_URL } from "./constants";
+import { FMOD_SCRIPT_FILENAME } from "./constants";
 import { getFmodScriptsFolder } from "./utils/platform";
+import type { CompanionScriptStatus } from "./types";
+
+// Companion script source, embedded by esbuild.config.mjs with a version header
+declare const COMPANION_SCRIPT: string;
+// Referenced once, so the build doesn't inline the script at every use
+const BUNDLED_SCRIPT = COMPANION_SCRIPT;
+
+// e.g. "// @fmod-sync-version 1.2.0+3f9a0c1d2e4b": the plugin version and a hash of the script
+const VERSION_HEADER = /^\/\/ @fmod-sync-version ([^\s+]+)(?:\+(\S+))?/m;
+
+interface ScriptStamp {
+	version: string;
+	hash: string;  // Empty for scripts stamped before hashes were added
+}
+
+/**
+ * Read the plugin version and script hash from a companion script's header.
+ * Returns null for scripts installed before the header existed.
+ */
+function parseScriptStamp(content: string): ScriptStamp | null {
+	const match = content.slice(0, 200).match(VERSION_HEADER);
+	return match ? { version: match[1], hash: match[2] || "" } : null;
+}
 
 /**
- * Check if the companion script exists in the FMOD Studio scripts folder.
+ * Compare two dotted version numbers, e.g. "1.10.0" > "1.9.2".
  */
-export function checkCompanionScriptExists(installationPath: string): boolean {
+function compareVersions(a: string, b: string): number {
+	const partsA = a.split(".").map((n) => parseInt(n, 10) || 0);
+	const partsB = b.split(".").map((n) => parseInt(n, 10) || 0);
+	for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+		const diff = (partsA[i] || 0) - (partsB[i] || 0);
+		if (diff !== 0) return diff;
+	}
+	return 0;
+}
+
+const BUNDLED_STAMP = parseScriptStamp(BUNDLED_SCRIPT) ?? { version: "", hash: "" };
+
+// Plugin version the bundled script was built with
+export const BUNDLED_SCRIPT_VERSION = BUNDLED_STAMP.version;
+
+function getScriptPath(installationPath: string): string | null {
 	const scriptsFolder = getFmodScriptsFolder(installationPath);
-	if (!scriptsFolder) return false;
-	const scriptPath = path.join(scriptsFolder, FMOD_SCRIPT_FILENAME);
-	return fs.existsSync(scriptPath);
+	return scriptsFolder ? path.join(scriptsFolder, FMOD_SCRIPT_FILENAME) : null;
+}
+
+/**
+ * Check whether the companion script is installed for an FMOD Studio installation,
+ * and how it compares to the script bundled with the plugin. Scripts are the same
+ * when their hashes match; otherwise a script from a later plugin version is newer,
+ * and anything else is outdated.
+ */
+export function getCompanionScriptStatus(installationPath: string): CompanionScriptStatus {
+	const scriptPath = getScriptPath(installationPath);
+	if (!scriptPath || !fs.existsSync(scriptPath)) {
+		return { state: "missing", installedVersion: null };
+	}
+
+	let stamp: ScriptStamp | null = null;
+	try {
+		stamp = parseScriptStamp(fs.readFileSync(scriptPath, "utf8"));
+	} catch {
+		// Unreadable script - treat it like one without a version
+	}
+
+	let state: CompanionScriptStatus["state"] = "outdated";
+	if (stamp && stamp.hash && stamp.hash === BUNDLED_STAMP.hash) {
+		state = "current";
+	} else if (stamp && compareVersions(stamp.version, BUNDLED_STAMP.version) > 0) {
+		state = "newer";
+	}
+	return { state, installedVersion: stamp ? stamp.version : null };
 }
 
 /**
  * Install the companion script to the FMOD Studio scripts folder.
- * Fetches the latest version from GitHub.
+ * Writes the script bundled with the plugin, replacing any installed version.
  */
 export async function installCompanionScript(installationPath: string): Promise<{ success: boolean; error?: string }> {
 	const scriptsFolder = getFmodScriptsFolder(installationPath);
@@ -32,20 +96,31 @@ export async function installCompanionScript(installationPath: string): Promise<
 		return { success: false, error: `Could not create scripts folder: ${err}` };
 	}
 
-	// Fetch script from GitHub
 	try {
-		const response = await fetch(FMOD_SCRIPT_URL);
-		if (!response.ok) {
-			return { success: false, error: `Failed to fetch script: ${response.status} ${response.statusText}` };
-		}
-		const scriptContent = await response.text();
-
-		// Write script to file
 		const scriptPath = path.join(scriptsFolder, FMOD_SCRIPT_FILENAME);
-		fs.writeFileSync(scriptPath, scriptContent, "utf8");
-
+		await fs.promises.writeFile(scriptPath, BUNDLED_SCRIPT, "utf8");
 		return { success: true };
 	} catch (err) {
 		return { success: false, error: `Failed to install script: ${err}` };
 	}
 }
+
+/**
+ * Remove the companion script from the FMOD Studio scripts folder.
+ */
+export async function uninstallCompanionScript(installationPath: string): Promise<{ success: boolean; error?: string }> {
+	const scriptPath = getScriptPath(installationPath);
+	if (!scriptPath) {
+		return { success: false, error: "Could not determine scripts folder path" };
+	}
+
+	try {
+		await fs.promises.unlink(scriptPath);
+		return { success: true };
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+			return { success: true };
+		}
+		return { success: false, error: `Failed to uninstall script: ${err}` };
+	}
+}
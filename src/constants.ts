@@ -12,7 +12,6 @@ export const DEFAULT_SETTINGS: FMODSyncSettings = {
 
 // Companion script constants
 export const FMOD_SCRIPT_FILENAME = "FMOD_Obsidian_Sync.js";
-export const FMOD_SCRIPT_URL = "https://raw.githubusercontent.com/danielrdehaan/obsidian-fmod-sync/main/scripts/FMOD_Obsidian_Sync.js";
 
 // Filename limits
 export const MAX_FILENAME_LENGTH = 200;
@@ -22,3 +21,41 @@ export const FMOD_TCP_PORT = 3663;
 export const FMOD_TCP_HOST = "127.0.0.1";
 export const FMOD_CONNECTION_TIMEOUT = 5000;
 export const FMOD_LAUNCH_TIMEOUT = 30000;
+
+// Export format version written by the companion script.
+// Bump it together with the script and add a migration in src/utils/migrations.ts.
+export const EXPORT_SCHEMA_VERSION = 5;
+
+// Sync engine constants
+// Body sections rebuilt from the export on every sync, in the order they are written
+export const MANAGED_SECTIONS = ["Parameters", "Timeline", "Notes", "User Properties"];
+// Body sections of bank, bus, VCA and snapshot notes rebuilt on every sync
+export const STRUCTURE_SECTIONS = ["Notes", "Output", "Inputs", "Events"];
+export const PLAN_YIELD_INTERVAL = 50;
+// Bump whenever generated note content changes, so fingerprinted notes are regenerated
+export const NOTE_FORMAT_VERSION = 6;
+// Oldest sync history entries are dropped beyond this
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Auto-sync constants
+export const AUTO_SYNC_DEBOUNCE = 2000;
+export const AUTO_SYNC_STABLE_TIMEOUT = 30000;
+export const AUTO_SYNC_MAX_RETRIES = 5;  // Times an export still being written is checked again
+
+// Folders for bank, bus, VCA and snapshot notes (relative to the project's vault folder)
+export const STRUCTURE_FOLDERS = {
+	bank: "Banks",
+	bus: "Buses",
+	vca: "VCAs",
+	snapshot: "Snapshots",
+};
+
+// Note path templates (relative to the project's vault folder, without .md)
+export const EVENT_PATH_TEMPLATES = {
+	mirror: "Events/{folder_path}/{name}",
+	flat: "Events/{name}",
+};
+export const AUDIO_PATH_TEMPLATES = {
+	mirror: "Audio Files/{folder_path}/{name}",
+	flat: "Audio Files/{name}",
+};
@@ -1,6 +1,12 @@
 import * as net from "net";
 import { FMOD_TCP_PORT, FMOD_TCP_HOST, FMOD_CONNECTION_TIMEOUT } from "../constants";
-import type { FMODConnectionResult } from "../types";
+import type { FMODConnectionResult, FMODEventDocs, PushChange } from "../types";
+
+// scripts/fmod-fields.js, embedded by esbuild.config.mjs. The export script uses the
+// same helpers, so pushes read and write the fields the export reads.
+declare const FMOD_FIELDS_SCRIPT: string;
+// Referenced once, so the build doesn't inline the helpers at every use
+const FIELD_HELPERS = FMOD_FIELDS_SCRIPT;
 
 /**
  * Check if FMOD Studio is running and accepting TCP connections.
@@ -86,6 +92,160 @@ export async function navigateToEvent(guid: string): Promise<FMODConnectionResul
 	return result;
 }
 
+/**
+ * Read an event's notes and user properties from FMOD Studio by its GUID.
+ */
+export async function readEventDocs(guid: string): Promise<{ docs?: FMODEventDocs; error?: string }> {
+	if (!/^\{[0-9a-f-]{36}\}$/i.test(guid)) {
+		return { error: "Invalid GUID format" };
+	}
+
+	const command = `(function() {
+		${FIELD_HELPERS}
+		var event = studio.project.lookup("${guid}");
+		if (!event) return "not_found";
+		var props = [];
+		var userProps = event.userProperties || [];
+		for (var i = 0; i < userProps.length; i++) {
+			props.push({ name: userProps[i].name, value: String(getUserPropertyValue(userProps[i])) });
+		}
+		return JSON.stringify({ notes: getNotes(event), userProperties: props });
+	})()`;
+
+	const result = await sendCommand(command);
+	if (!result.success) {
+		return { error: result.error };
+	}
+	if (result.response === "not_found") {
+		return { error: "Event not found in FMOD project" };
+	}
+
+	try {
+		return { docs: JSON.parse(result.response || "") as FMODEventDocs };
+	} catch {
+		return { error: `Unexpected response from FMOD Studio: ${result.response}` };
+	}
+}
+
+/**
+ * Write notes and user property changes to an event in FMOD Studio by its GUID.
+ * Property values keep the type of the existing property; new properties are added as strings.
+ */
+export async function writeEventDocs(guid: string, changes: PushChange[]): Promise<FMODConnectionResult> {
+	if (!/^\{[0-9a-f-]{36}\}$/i.test(guid)) {
+		return { success: false, error: "Invalid GUID format" };
+	}
+
+	// Values are embedded as JSON literals so any text is passed through safely
+	const command = `(function() {
+		${FIELD_HELPERS}
+		var event = studio.project.lookup("${guid}");
+		if (!event) return "not_found";
+		var changes = ${JSON.stringify(changes)};
+		for (var i = 0; i < changes.length; i++) {
+			var change = changes[i];
+			if (change.kind === "notes") {
+				setNotes(event, change.newValue);
+				continue;
+			}
+			var userProps = event.userProperties || [];
+			var prop = null;
+			for (var j = 0; j < userProps.length; j++) {
+				if (userProps[j].name === change.name) prop = userProps[j];
+			}
+			if (prop) {
+				setUserPropertyValue(prop, change.newValue);
+			} else {
+				event.addUserProperty(change.name, change.newValue);
+			}
+		}
+		return "ok";
+	})()`;
+
+	const result = await sendCommand(command);
+
+	if (result.success && result.response === "not_found") {
+		return { success: false, error: "Event not found in FMOD project" };
+	}
+	if (result.success && result.response !== "ok") {
+		return { success: false, error: result.response || "No response from FMOD Studio" };
+	}
+
+	return result;
+}
+
+/**
+ * Create an event in the open FMOD Studio project.
+ * Missing folders are created, the event is assigned to existing banks, and
+ * 3D events get a spatializer on the master track. Returns the new event's GUID.
+ */
+export async function createEvent(
+	folderPath: string,
+	name: string,
+	banks: string[],
+	space: string
+): Promise<{ guid?: string; error?: string }> {
+	const spec = {
+		folders: folderPath.split("/").filter(Boolean),
+		name,
+		banks,
+		is3D: space.trim().toUpperCase() === "3D",
+	};
+
+	// The spec is embedded as a JSON literal so any names are passed through safely
+	const command = `(function() {
+		var spec = ${JSON.stringify(spec)};
+		var folder = studio.project.workspace.masterEventFolder;
+		for (var i = 0; i < spec.folders.length; i++) {
+			var next = null;
+			for (var j = 0; j < folder.items.length; j++) {
+				var item = folder.items[j];
+				if (item.isOfType("EventFolder") && item.name === spec.folders[i]) next = item;
+			}
+			if (!next) {
+				next = studio.project.create("EventFolder");
+				next.name = spec.folders[i];
+				next.folder = folder;
+			}
+			folder = next;
+		}
+		for (var k = 0; k < folder.items.length; k++) {
+			if (folder.items[k].isOfType("Event") && folder.items[k].name === spec.name) return "exists";
+		}
+		var event = studio.project.create("Event");
+		event.name = spec.name;
+		event.folder = folder;
+		var missing = [];
+		for (var b = 0; b < spec.banks.length; b++) {
+			var bank = studio.project.lookup("bank:/" + spec.banks[b]);
+			if (bank) event.relationships.banks.add(bank);
+			else missing.push(spec.banks[b]);
+		}
+		if (spec.is3D) {
+			event.masterTrack.mixerGroup.effectChain.addEffect("SpatialiserEffect");
+		}
+		return JSON.stringify({ guid: event.id, missingBanks: missing });
+	})()`;
+
+	const result = await sendCommand(command);
+	if (!result.success) {
+		return { error: result.error };
+	}
+	if (result.response === "exists") {
+		return { error: `An event named "${name}" already exists in that folder` };
+	}
+
+	try {
+		const created = JSON.parse(result.response || "") as { guid: string; missingBanks: string[] };
+		if (created.missingBanks.length > 0) {
+			console.warn(`FMOD Sync: Banks not found for "${name}":`, created.missingBanks);
+		}
+		return { guid: created.guid };
+	} catch {
+		return { error: `Unexpected response from FMOD Studio: ${result.response}` };
+	}
+}
+
 /**
  * Wait for FMOD Studio to accept TCP connections.
  */
@@ -0,0 +1,123 @@
+import type { ExportDiff, EventDiff, FMODEvent } from "../types";
+import { formatYamlProperty } from "./frontmatter";
+import { noteLink } from "./report";
+
+/**
+ * Link to an event's note when it has one, otherwise to a note named after the event.
+ */
+function eventLink(guid: string, name: string, noteByGuid: Map<string, string>): string {
+	const notePath = noteByGuid.get(guid);
+	return notePath ? noteLink(notePath, name) : `[[${name}]]`;
+}
+
+/**
+ * Link to an audio file note, which is named after the file including its extension.
+ */
+function audioLink(assetPath: string): string {
+	return `[[${assetPath.substring(assetPath.lastIndexOf("/") + 1)}]]`;
+}
+
+function formatDate(isoDate: string): string {
+	const date = new Date(isoDate);
+	return isNaN(date.getTime()) ? isoDate : date.toLocaleString();
+}
+
+/**
+ * Write a list section, skipping it when there is nothing to list.
+ */
+function section(title: string, lines: string[]): string {
+	if (lines.length === 0) return "";
+	return `## ${title}\n` + lines.map((line) => `- ${line}\n`).join("") + "\n";
+}
+
+/**
+ * Generate the markdown changelog between two exports of a project.
+ * Events link to their notes, so the note can be pasted into milestone reports.
+ */
+export function generateExportChangelog(
+	diff: ExportDiff,
+	projectName: string,
+	noteByGuid: Map<string, string>
+): string {
+	const link = (event: FMODEvent | EventDiff) => eventLink(event.guid, event.name, noteByGuid);
+
+	const renamed = diff.changed.filter((c) => c.oldName !== undefined);
+	const moved = diff.changed.filter((c) => c.oldFolderPath !== undefined);
+	const bankChanges = diff.changed.filter((c) => c.banksAdded.length > 0 || c.banksRemoved.length > 0);
+	const parameterChanges = diff.changed.filter((c) => c.parameters.length > 0);
+	const audioChanges = diff.changed.filter((c) => c.audioAdded.length > 0 || c.audioRemoved.length > 0);
+
+	let yaml = "---\n";
+	yaml += formatYamlProperty("fmod_project", projectName);
+	yaml += formatYamlProperty("fmod_compared_from", diff.older.exported_at);
+	yaml += formatYamlProperty("fmod_compared_to", diff.newer.exported_at);
+	yaml += "---\n\n";
+
+	let md = `# Changelog: ${projectName}\n\n`;
+	md += `From the export of ${formatDate(diff.older.exported_at)} (${diff.older.event_count} events) `;
+	md += `to the export of ${formatDate(diff.newer.exported_at)} (${diff.newer.event_count} events).\n\n`;
+
+	md += "| Added | Removed | Renamed | Moved | Bank changes | Parameter changes | Audio changes |\n";
+	md += "|-------|---------|---------|-------|--------------|-------------------|---------------|\n";
+	md += `| ${diff.added.length} | ${diff.removed.length} | ${renamed.length} | ${moved.length} | ${bankChanges.length} | ${parameterChanges.length} | ${audioChanges.length} |\n\n`;
+
+	md += section(
+		"Added Events",
+		diff.added.map((e) => `${link(e)} (\`${e.full_path}\`)`)
+	);
+
+	md += section(
+		"Removed Events",
+		diff.removed.map((e) => `${link(e)} (\`${e.full_path}\`)`)
+	);
+
+	md += section(
+		"Renamed Events",
+		renamed.map((c) => `${link(c)}: ${c.oldName} → ${c.name}`)
+	);
+
+	md += section(
+		"Moved Events",
+		moved.map((c) => `${link(c)}: \`${c.oldFolderPath || "/"}\` → \`${c.folderPath || "/"}\``)
+	);
+
+	md += section(
+		"Bank Changes",
+		bankChanges.map((c) => {
+			const parts = [
+				...c.banksAdded.map((b) => `+${b}`),
+				...c.banksRemoved.map((b) => `−${b}`),
+			];
+			return `${link(c)}: ${parts.join(", ")}`;
+		})
+	);
+
+	md += section(
+		"Parameter Changes",
+		parameterChanges.map((c) => {
+			const parts = c.parameters.map((p) => {
+				if (p.oldRange === null) return `${p.name} added (${p.newRange})`;
+				if (p.newRange === null) return `${p.name} removed`;
+				return `${p.name} ${p.oldRange} → ${p.newRange}`;
+			});
+			return `${link(c)}: ${parts.join("; ")}`;
+		})
+	);
+
+	md += section(
+		"Audio Files",
+		audioChanges.map((c) => {
+			const parts = [
+				...c.audioAdded.map((a) => `+${audioLink(a)}`),
+				...c.audioRemoved.map((a) => `−${audioLink(a)}`),
+			];
+			return `${link(c)}: ${parts.join(", ")}`;
+		})
+	);
+
+	if (diff.added.length + diff.removed.length + diff.changed.length === 0) {
+		md += "No event changes between these exports.\n";
+	}
+
+	return yaml + md;
+}
@@ -1,4 +1,5 @@
 import type { ParsedFrontmatter } from "../types";
+import { MANAGED_SECTIONS } from "../constants";
 
 /**
  * Parse YAML frontmatter from markdown content.
@@ -31,7 +32,7 @@ export function parseFrontmatter(content: string): ParsedFrontmatter {
 		// Check for array item
 		if (trimmed.startsWith("- ")) {
 			if (inArray && currentKey) {
-				arrayValues.push(trimmed.substring(2).trim());
+				arrayValues.push(unquoteYaml(trimmed.substring(2).trim()));
 			}
 			continue;
 		}
@@ -45,7 +46,7 @@ export function parseFrontmatter(content: string): ParsedFrontmatter {
 			}
 
 			currentKey = trimmed.substring(0, colonIdx).trim();
-			let val = trimmed.substring(colonIdx + 1).trim();
+			const val = trimmed.substring(colonIdx + 1).trim();
 
 			if (val === "" || val === "|" || val === ">") {
 				// Could be array or multiline
@@ -53,14 +54,7 @@ export function parseFrontmatter(content: string): ParsedFrontmatter {
 				arrayValues = [];
 			} else {
 				inArray = false;
-				// Remove quotes if present
-				if (
-					(val.startsWith('"') && val.endsWith('"') && val.length > 1) ||
-					(val.startsWith("'") && val.endsWith("'") && val.length > 1)
-				) {
-					val = val.substring(1, val.length - 1);
-				}
-				result.properties[currentKey] = val;
+				result.properties[currentKey] = unquoteYaml(val);
 			}
 		}
 	}
@@ -73,6 +67,19 @@ export function parseFrontmatter(content: string): ParsedFrontmatter {
 	return result;
 }
 
+/**
+ * Remove surrounding quotes from a YAML scalar, reversing yamlEscape.
+ */
+function unquoteYaml(val: string): string {
+	if (val.startsWith('"') && val.endsWith('"') && val.length > 1) {
+		return val.substring(1, val.length - 1).replace(/\\(["\\])/g, "$1");
+	}
+	if (val.startsWith("'") && val.endsWith("'") && val.length > 1) {
+		return val.substring(1, val.length - 1);
+	}
+	return val;
+}
+
 /**
  * Escape a value for safe use in YAML.
  */
@@ -119,13 +126,72 @@ export function formatYamlProperty(key: string, value: unknown): string {
 	return `${key}: ${yamlEscape(String(value))}\n`;
 }
 
+/**
+ * Set top-level frontmatter properties in place, leaving all other lines untouched.
+ * Existing keys are replaced (including their array items), new keys are appended,
+ * and keys with an undefined value are removed.
+ */
+export function setFrontmatterProperties(
+	content: string,
+	props: Record<string, unknown>
+): string {
+	const endMatch = content.startsWith("---") ? content.indexOf("\n---", 3) : -1;
+	const yamlBlock = endMatch > 4 ? content.substring(4, endMatch) : "";
+	const rest = endMatch >= 0 ? content.substring(endMatch) : "\n---\n\n" + content;
+
+	const remaining = new Set(Object.keys(props));
+	const out: string[] = [];
+	let skipping = false;
+
+	for (const line of yamlBlock ? yamlBlock.split("\n") : []) {
+		// Skip array items and indented continuation lines of a replaced key
+		if (skipping && (line.startsWith(" ") || line.startsWith("\t") || line.startsWith("- "))) {
+			continue;
+		}
+		skipping = false;
+
+		const keyMatch = line.match(/^([^\s#][^:]*):/);
+		const key = keyMatch ? keyMatch[1].trim() : null;
+		if (key && remaining.has(key)) {
+			remaining.delete(key);
+			skipping = true;
+			if (props[key] !== undefined) {
+				out.push(formatYamlProperty(key, props[key]).replace(/\n$/, ""));
+			}
+			continue;
+		}
+		out.push(line);
+	}
+
+	for (const key of remaining) {
+		if (props[key] !== undefined) {
+			out.push(formatYamlProperty(key, props[key]).replace(/\n$/, ""));
+		}
+	}
+
+	return "---\n" + out.join("\n") + rest;
+}
+
+/**
+ * Check whether generated content matches existing content, ignoring fmod_last_synced.
+ * Used to avoid rewriting notes when only the sync timestamp would change.
+ */
+export function isSameIgnoringSyncTime(existingContent: string, generatedContent: string): boolean {
+	const ignore = { fmod_last_synced: undefined };
+	return (
+		setFrontmatterProperties(existingContent, ignore) ===
+		setFrontmatterProperties(generatedContent, ignore)
+	);
+}
+
 /**
  * Extract user-added sections from markdown body.
  * Preserves sections not managed by FMOD sync.
  */
 export function extractUserSections(
 	content: string,
-	bodyStart: number
+	bodyStart: number,
+	generatedSections: string[] = MANAGED_SECTIONS
 ): Record<string, string> {
 	const body = content.substring(bodyStart);
 	const sections: Record<string, string> = {};
@@ -133,7 +199,7 @@ export function extractUserSections(
 	const lines = body.split("\n");
 	let currentSection: string | null = null;
 	let currentContent: string[] = [];
-	const managedSections = ["parameters", "notes", "user properties"];
+	const managedSections = generatedSections.map((s) => s.toLowerCase());
 
 	for (const line of lines) {
 		if (line.startsWith("## ")) {
@@ -1,5 +1,7 @@
-import type { FMODEvent, FMODAudioFileNote } from "../types";
+import type { FMODEvent, FMODAudioFileNote, EventNoteLinks, FMODStructureNote, FMODTimeline } from "../types";
+import { STRUCTURE_SECTIONS } from "../constants";
 import { parseFrontmatter, formatYamlProperty, extractUserSections } from "./frontmatter";
+import { managedSectionsHash } from "./managed";
 
 /**
  * Get the filename (without extension) from an audio file for wiki links.
@@ -11,6 +13,58 @@ function getAudioFileNoteName(audioFilePath: string): string {
 	return filename;
 }
 
+/**
+ * Format a timeline position in seconds, e.g. "12.50 s".
+ */
+function formatSeconds(seconds: number): string {
+	return `${seconds.toFixed(2)} s`;
+}
+
+/**
+ * Build the Timeline section: the length, then every marker and region by position.
+ * Returns an empty string for events with nothing on their timeline.
+ */
+function formatTimeline(timeline: FMODTimeline): string {
+	const rows: { position: number; type: string; details: string }[] = [];
+
+	for (const marker of timeline.markers) {
+		if (marker.type === "destination") {
+			rows.push({ position: marker.position, type: "Destination", details: marker.name });
+		} else {
+			let details = marker.destination ? `→ ${marker.destination}` : "";
+			if (marker.length !== undefined) {
+				details += ` (until ${formatSeconds(marker.position + marker.length)})`;
+			}
+			if (marker.name) {
+				details = `${marker.name} ${details}`;
+			}
+			const type = marker.length !== undefined ? "Transition region" : "Transition";
+			rows.push({ position: marker.position, type, details: details.trim() });
+		}
+	}
+	for (const tempo of timeline.tempo) {
+		rows.push({ position: tempo.position, type: "Tempo", details: `${tempo.tempo} BPM, ${tempo.time_signature}` });
+	}
+	for (const region of timeline.loop_regions) {
+		rows.push({ position: region.start, type: "Loop region", details: `until ${formatSeconds(region.end)}` });
+	}
+
+	if (timeline.length <= 0 && rows.length === 0) return "";
+
+	let md = "## Timeline\n";
+	md += `Length: ${formatSeconds(timeline.length)}\n\n`;
+	if (rows.length > 0) {
+		rows.sort((a, b) => a.position - b.position);
+		md += "| Position | Type | Details |\n";
+		md += "|----------|------|---------|\n";
+		for (const row of rows) {
+			md += `| ${formatSeconds(row.position)} | ${row.type} | ${row.details} |\n`;
+		}
+		md += "\n";
+	}
+	return md;
+}
+
 /**
  * Generate markdown content for an FMOD event.
  * Preserves user properties and user-added sections from existing content.
@@ -19,7 +73,9 @@ export function generateMarkdown(
 	event: FMODEvent,
 	existingContent: string | null,
 	exportedAt: string,
-	projectName: string
+	projectName: string,
+	sourceHash?: string,
+	links?: EventNoteLinks
 ): string {
 	// Parse existing frontmatter to preserve user properties
 	const existing = existingContent
@@ -37,6 +93,8 @@ export function generateMarkdown(
 		"fmod_guid",
 		"fmod_project",
 		"fmod_banks",
+		"fmod_bank_links",
+		"fmod_output_bus",
 		"fmod_folder_path",
 		"fmod_full_path",
 		"fmod_loop_type",
@@ -44,7 +102,13 @@ export function generateMarkdown(
 		"fmod_max_voices",
 		"fmod_parameters",
 		"fmod_audio_files",
+		"fmod_uses",
+		"fmod_used_by",
 		"fmod_last_synced",
+		"fmod_source_hash",
+		"fmod_managed_hash",
+		"fmod_removed_at",
+		"fmod_created_at",
 	];
 
 	// Build merged properties
@@ -64,6 +128,13 @@ export function generateMarkdown(
 	if (event.banks.length > 0) {
 		mergedProps["fmod_banks"] = event.banks;
 	}
+	// Link to the bank and bus notes
+	if (links && links.banks.length > 0) {
+		mergedProps["fmod_bank_links"] = links.banks;
+	}
+	if (links?.outputBus) {
+		mergedProps["fmod_output_bus"] = links.outputBus;
+	}
 	mergedProps["fmod_folder_path"] = event.folder_path;
 	mergedProps["fmod_full_path"] = event.full_path;
 	mergedProps["fmod_loop_type"] = event.loop_type;
@@ -81,7 +152,57 @@ export function generateMarkdown(
 			return `[[${filename}]]`;
 		});
 	}
+	// Link to the events this event plays through event instruments, and back
+	if (links && links.uses.length > 0) {
+		mergedProps["fmod_uses"] = links.uses;
+	}
+	if (links && links.usedBy.length > 0) {
+		mergedProps["fmod_used_by"] = links.usedBy;
+	}
 	mergedProps["fmod_last_synced"] = exportedAt;
+	mergedProps["fmod_source_hash"] = sourceHash;
+
+	// Build markdown body
+	let md = "";
+
+	// Parameters section
+	if (event.parameters.length > 0) {
+		md += "## Parameters\n";
+		md += "| Name | Type | Min | Max | Initial |\n";
+		md += "|------|------|-----|-----|--------|\n";
+		for (const param of event.parameters) {
+			md += `| ${param.name} | ${param.type} | ${param.min} | ${param.max} | ${param.initial} |\n`;
+		}
+		md += "\n";
+	}
+
+	// Timeline section
+	md += formatTimeline(event.timeline);
+
+	// Notes section
+	md += "## Notes\n";
+	md += (event.notes || "") + "\n\n";
+
+	// User Properties section
+	if (event.user_properties.length > 0) {
+		md += "## User Properties\n";
+		for (const prop of event.user_properties) {
+			md += `- ${prop.name}`;
+			if (prop.type) md += ` (${prop.type})`;
+			if (prop.value !== "" && prop.value !== undefined) md += ` = ${prop.value}`;
+			md += "\n";
+		}
+		md += "\n";
+	}
+
+	// Preserved user sections
+	for (const [sectionName, content] of Object.entries(userSections)) {
+		md += `## ${sectionName}\n`;
+		md += content + "\n\n";
+	}
+
+	// Hash the managed sections as generated, to detect later edits in Obsidian
+	mergedProps["fmod_managed_hash"] = managedSectionsHash(md);
 
 	// Build YAML frontmatter
 	let yaml = "---\n";
@@ -92,6 +213,8 @@ export function generateMarkdown(
 		"fmod_guid",
 		"fmod_project",
 		"fmod_banks",
+		"fmod_bank_links",
+		"fmod_output_bus",
 		"fmod_folder_path",
 		"fmod_full_path",
 		"fmod_loop_type",
@@ -99,7 +222,11 @@ export function generateMarkdown(
 		"fmod_max_voices",
 		"fmod_parameters",
 		"fmod_audio_files",
+		"fmod_uses",
+		"fmod_used_by",
 		"fmod_last_synced",
+		"fmod_source_hash",
+		"fmod_managed_hash",
 	];
 
 	const usedKeys = new Set<string>();
@@ -122,42 +249,6 @@ export function generateMarkdown(
 
 	yaml += "---\n\n";
 
-	// Build markdown body
-	let md = "";
-
-	// Parameters section
-	if (event.parameters.length > 0) {
-		md += "## Parameters\n";
-		md += "| Name | Type | Min | Max | Initial |\n";
-		md += "|------|------|-----|-----|--------|\n";
-		for (const param of event.parameters) {
-			md += `| ${param.name} | ${param.type} | ${param.min} | ${param.max} | ${param.initial} |\n`;
-		}
-		md += "\n";
-	}
-
-	// Notes section
-	md += "## Notes\n";
-	md += (event.notes || "") + "\n\n";
-
-	// User Properties section
-	if (event.user_properties.length > 0) {
-		md += "## User Properties\n";
-		for (const prop of event.user_properties) {
-			md += `- ${prop.name}`;
-			if (prop.type) md += ` (${prop.type})`;
-			if (prop.value !== "" && prop.value !== undefined) md += ` = ${prop.value}`;
-			md += "\n";
-		}
-		md += "\n";
-	}
-
-	// Preserved user sections
-	for (const [sectionName, content] of Object.entries(userSections)) {
-		md += `## ${sectionName}\n`;
-		md += content + "\n\n";
-	}
-
 	return yaml + md;
 }
 
@@ -169,7 +260,8 @@ export function generateAudioFileMarkdown(
 	audioFile: FMODAudioFileNote,
 	existingContent: string | null,
 	exportedAt: string,
-	projectName: string
+	projectName: string,
+	sourceHash?: string
 ): string {
 	// Parse existing frontmatter to preserve user properties
 	const existing = existingContent
@@ -186,8 +278,17 @@ export function generateAudioFileMarkdown(
 		"fmod_path",
 		"fmod_asset_path",
 		"fmod_events",
+		"fmod_format",
+		"fmod_duration",
+		"fmod_sample_rate",
+		"fmod_bit_depth",
+		"fmod_channels",
+		"fmod_file_size",
 		"fmod_project",
 		"fmod_last_synced",
+		"fmod_source_hash",
+		"fmod_status",
+		"fmod_removed_at",
 	];
 
 	// Build merged properties
@@ -209,8 +310,19 @@ export function generateAudioFileMarkdown(
 	if (audioFile.eventNames.length > 0) {
 		mergedProps["fmod_events"] = audioFile.eventNames.map((name) => `[[${name}]]`);
 	}
+	// Add technical metadata read from the file's headers
+	const metadata = audioFile.metadata;
+	if (metadata) {
+		mergedProps["fmod_format"] = metadata.format;
+		mergedProps["fmod_duration"] = Math.round(metadata.duration * 1000) / 1000;
+		mergedProps["fmod_sample_rate"] = metadata.sampleRate;
+		mergedProps["fmod_bit_depth"] = metadata.bitDepth;
+		mergedProps["fmod_channels"] = metadata.channels;
+		mergedProps["fmod_file_size"] = metadata.fileSize;
+	}
 	mergedProps["fmod_project"] = projectName;
 	mergedProps["fmod_last_synced"] = exportedAt;
+	mergedProps["fmod_source_hash"] = sourceHash;
 
 	// Build YAML frontmatter
 	let yaml = "---\n";
@@ -220,8 +332,15 @@ export function generateAudioFileMarkdown(
 		"fmod_path",
 		"fmod_asset_path",
 		"fmod_events",
+		"fmod_format",
+		"fmod_duration",
+		"fmod_sample_rate",
+		"fmod_bit_depth",
+		"fmod_channels",
+		"fmod_file_size",
 		"fmod_project",
 		"fmod_last_synced",
+		"fmod_source_hash",
 	];
 
 	const usedKeys = new Set<string>();
@@ -260,3 +379,135 @@ export function generateAudioFileMarkdown(
 
 	return yaml + md;
 }
+
+/**
+ * Generate markdown content for a bank, bus, VCA or snapshot note.
+ * Preserves user properties and user-added sections from existing content.
+ */
+export function generateStructureMarkdown(
+	note: FMODStructureNote,
+	existingContent: string | null,
+	exportedAt: string,
+	projectName: string,
+	sourceHash?: string
+): string {
+	// Parse existing frontmatter to preserve user properties
+	const existing = existingContent
+		? parseFrontmatter(existingContent)
+		: { properties: {}, bodyStart: 0 };
+
+	// Extract user-added sections
+	const userSections = existingContent
+		? extractUserSections(existingContent, existing.bodyStart, STRUCTURE_SECTIONS)
+		: {};
+
+	// FMOD-managed properties that will be overwritten, in output order
+	const orderedKeys = [
+		"fmod_status",
+		"fmod_type",
+		"fmod_guid",
+		"fmod_project",
+		"fmod_full_path",
+		"fmod_output",
+		"fmod_last_synced",
+		"fmod_source_hash",
+	];
+
+	const mergedProps: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(existing.properties)) {
+		if (!orderedKeys.includes(key) && key !== "fmod_removed_at") {
+			mergedProps[key] = value;
+		}
+	}
+
+	mergedProps["fmod_status"] = "exists";
+	mergedProps["fmod_type"] = note.kind;
+	mergedProps["fmod_guid"] = note.item.guid;
+	mergedProps["fmod_project"] = projectName;
+	mergedProps["fmod_full_path"] = note.item.path;
+	if (note.output) {
+		mergedProps["fmod_output"] = note.output;
+	}
+	mergedProps["fmod_last_synced"] = exportedAt;
+	mergedProps["fmod_source_hash"] = sourceHash;
+
+	let yaml = "---\n";
+	const usedKeys = new Set<string>();
+
+	for (const key of orderedKeys) {
+		if (mergedProps[key] !== undefined && mergedProps[key] !== "") {
+			yaml += formatYamlProperty(key, mergedProps[key]);
+			usedKeys.add(key);
+		}
+	}
+
+	const remainingKeys = Object.keys(mergedProps)
+		.filter((k) => !usedKeys.has(k))
+		.sort();
+
+	for (const key of remainingKeys) {
+		yaml += formatYamlProperty(key, mergedProps[key]);
+	}
+
+	yaml += "---\n\n";
+
+	// Build markdown body
+	let md = "## Notes\n";
+	md += (note.item.notes || "") + "\n\n";
+
+	if (note.output) {
+		md += "## Output\n";
+		md += `- ${note.output}\n\n`;
+	}
+
+	if (note.inputs.length > 0) {
+		md += "## Inputs\n";
+		md += note.inputs.map((link) => `- ${link}\n`).join("") + "\n";
+	}
+
+	if (note.events.length > 0) {
+		md += "## Events\n";
+		md += note.events.map((link) => `- ${link}\n`).join("") + "\n";
+	}
+
+	// Preserved user sections
+	for (const [sectionName, content] of Object.entries(userSections)) {
+		md += `## ${sectionName}\n`;
+		md += content + "\n\n";
+	}
+
+	return yaml + md;
+}
+
+/**
+ * Generate markdown content for a planned event that doesn't exist in FMOD yet.
+ * The note is adopted by the event with the same path or name on a later sync.
+ * Design notes go in their own section, which is preserved on adoption.
+ */
+export function generatePlannedEventMarkdown(
+	fullPath: string,
+	bank: string,
+	space: string,
+	projectName: string
+): string {
+	const folderPath = fullPath.replace(/^event:\//, "").split("/").slice(0, -1).join("/");
+
+	let yaml = "---\n";
+	yaml += formatYamlProperty("fmod_status", "planned");
+	if (projectName) {
+		yaml += formatYamlProperty("fmod_project", projectName);
+	}
+	if (bank) {
+		yaml += formatYamlProperty("fmod_banks", [bank]);
+	}
+	if (folderPath) {
+		yaml += formatYamlProperty("fmod_folder_path", folderPath);
+	}
+	yaml += formatYamlProperty("fmod_full_path", fullPath);
+	if (space) {
+		yaml += formatYamlProperty("fmod_space", space);
+	}
+	yaml += "---\n\n";
+
+	return yaml + "## Design\n\n";
+}
@@ -0,0 +1,149 @@
+import type { ConflictResolution, FMODEventDocs, PushChange } from "../types";
+import { MANAGED_SECTIONS } from "../constants";
+import { hashString } from "../utils/hash";
+import { parseFrontmatter } from "./frontmatter";
+
+/**
+ * Extract the FMOD-managed sections (Parameters, Timeline, Notes, User Properties) from a note.
+ * Returns the trimmed content of each section found, keyed by its canonical heading.
+ */
+export function extractManagedSections(content: string): Record<string, string> {
+	const body = content.substring(parseFrontmatter(content).bodyStart);
+	const sections: Record<string, string> = {};
+
+	let current: string | null = null;
+	let lines: string[] = [];
+	const save = () => {
+		if (current) sections[current] = lines.join("\n").trim();
+	};
+
+	for (const line of body.split("\n")) {
+		if (line.startsWith("## ")) {
+			save();
+			const heading = line.substring(3).trim().toLowerCase();
+			current = MANAGED_SECTIONS.find((s) => s.toLowerCase() === heading) || null;
+			lines = [];
+		} else if (current) {
+			lines.push(line);
+		}
+	}
+	save();
+
+	return sections;
+}
+
+/**
+ * Format managed sections in the order the generator writes them.
+ */
+export function formatManagedSections(sections: Record<string, string>): string {
+	let md = "";
+	for (const heading of MANAGED_SECTIONS) {
+		if (sections[heading] !== undefined) {
+			md += `## ${heading}\n${sections[heading]}\n\n`;
+		}
+	}
+	return md;
+}
+
+/**
+ * Hash a note's managed sections, normalized so whitespace around sections doesn't count.
+ * The letter prefix keeps YAML from reading the hash as a number.
+ */
+export function managedSectionsHash(content: string): string {
+	return `m-${hashString(formatManagedSections(extractManagedSections(content)))}`;
+}
+
+/**
+ * Replace the managed sections of a generated note.
+ * The generator writes managed sections first, then user sections, so everything
+ * from the first managed heading up to the first other heading is swapped out.
+ */
+function replaceManagedBlock(markdown: string, managedBlock: string): string {
+	const bodyStart = parseFrontmatter(markdown).bodyStart;
+	const head = markdown.substring(0, bodyStart);
+	const lines = markdown.substring(bodyStart).split("\n");
+
+	const isManaged = (line: string) =>
+		MANAGED_SECTIONS.some((s) => line.substring(3).trim().toLowerCase() === s.toLowerCase());
+	const firstOther = lines.findIndex((line) => line.startsWith("## ") && !isManaged(line));
+	const rest = firstOther >= 0 ? lines.slice(firstOther).join("\n") : "";
+
+	return head.replace(/\n*$/, "\n\n") + managedBlock + rest;
+}
+
+/**
+ * Resolve a conflict between managed sections edited in Obsidian and changed in FMOD.
+ * Starts from the freshly generated note (FMOD's version) and:
+ * - "fmod" keeps it as is
+ * - "vault" puts the Obsidian sections back in place of FMOD's
+ * - "both" keeps FMOD's sections and adds each differing Obsidian section
+ *   as "<Heading> (Obsidian)", which later syncs preserve as a user section
+ * fmod_managed_hash stays FMOD's, so later syncs treat the Obsidian text as a local edit.
+ */
+export function resolveManagedConflict(
+	generated: string,
+	vaultContent: string,
+	resolution: ConflictResolution
+): string {
+	if (resolution === "fmod") {
+		return generated;
+	}
+
+	const vaultSections = extractManagedSections(vaultContent);
+	if (resolution === "vault") {
+		return replaceManagedBlock(generated, formatManagedSections(vaultSections));
+	}
+
+	const fmodSections = extractManagedSections(generated);
+	let extra = "";
+	for (const heading of MANAGED_SECTIONS) {
+		const vaultText = vaultSections[heading];
+		if (vaultText !== undefined && vaultText !== fmodSections[heading]) {
+			extra += `## ${heading} (Obsidian)\n${vaultText}\n\n`;
+		}
+	}
+	return replaceManagedBlock(generated, formatManagedSections(fmodSections) + extra);
+}
+
+/**
+ * Parse the User Properties section written by the generator,
+ * e.g. "- doc (bool) = true", into name/value pairs.
+ */
+export function parseUserPropertiesSection(section: string): { name: string; value: string }[] {
+	const props: { name: string; value: string }[] = [];
+	for (const line of section.split("\n")) {
+		const match = line.trim().match(/^- (.+?)(?: \(([^)]*)\))?(?: = (.*))?$/);
+		if (match) {
+			props.push({ name: match[1].trim(), value: (match[3] || "").trim() });
+		}
+	}
+	return props;
+}
+
+/**
+ * Compare a note's Notes and User Properties sections with the event in FMOD.
+ * Returns what would change in FMOD; properties missing from the note are left alone.
+ */
+export function collectPushChanges(content: string, docs: FMODEventDocs): PushChange[] {
+	const sections = extractManagedSections(content);
+	const changes: PushChange[] = [];
+
+	const notes = sections["Notes"];
+	if (notes !== undefined && notes !== docs.notes.trim()) {
+		changes.push({ kind: "notes", name: "Notes", oldValue: docs.notes, newValue: notes });
+	}
+
+	for (const prop of parseUserPropertiesSection(sections["User Properties"] || "")) {
+		const current = docs.userProperties.find((p) => p.name === prop.name);
+		if (!current || current.value !== prop.value) {
+			changes.push({
+				kind: "property",
+				name: prop.name,
+				oldValue: current ? current.value : null,
+				newValue: prop.value,
+			});
+		}
+	}
+
+	return changes;
+}
@@ -0,0 +1,117 @@
+import type { SyncChange, SyncStats, SkipReason, PlannedEvent } from "../types";
+import { formatYamlProperty } from "./frontmatter";
+
+function pad2(n: number): string {
+	return (n < 10 ? "0" : "") + n;
+}
+
+/**
+ * Format a date as the sync report filename, e.g. "2026-10-19 1432".
+ */
+export function formatReportName(date: Date): string {
+	return (
+		`${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())} ` +
+		`${pad2(date.getHours())}${pad2(date.getMinutes())}`
+	);
+}
+
+/**
+ * Build a wiki link to a note by its vault path, showing the note name.
+ */
+export function noteLink(notePath: string, name: string): string {
+	const linkPath = notePath.replace(/\.md$/, "");
+	return `[[${linkPath}|${name}]]`;
+}
+
+/**
+ * Generate the markdown changelog for a single sync.
+ * Lists created, updated, moved, removed, conflicting, skipped and failed notes,
+ * planned notes adopted by their event, and planned notes still waiting for one.
+ */
+export function generateSyncReport(
+	projectName: string,
+	exportedAt: string,
+	syncedAt: Date,
+	stats: SyncStats,
+	changes: SyncChange[],
+	failures: SkipReason[],
+	planned: PlannedEvent[]
+): string {
+	let yaml = "---\n";
+	yaml += formatYamlProperty("fmod_project", projectName);
+	yaml += formatYamlProperty("fmod_exported_at", exportedAt);
+	yaml += formatYamlProperty("fmod_synced_at", syncedAt.toISOString());
+	yaml += "---\n\n";
+
+	let md = `# Sync Report: ${projectName}\n\n`;
+
+	md += "| Created | Updated | Unchanged | Moved | Removed | Conflicts | Skipped | Errors |\n";
+	md += "|---------|---------|-----------|-------|---------|-----------|---------|--------|\n";
+	md += `| ${stats.created} | ${stats.updated} | ${stats.unchanged} | ${stats.moved} | ${stats.removed} | ${stats.conflicts} | ${stats.skipped} | ${stats.errors} |\n\n`;
+
+	const sections: { title: string; type: SyncChange["type"] }[] = [
+		{ title: "Created", type: "create" },
+		{ title: "Updated", type: "update" },
+		{ title: "Moved", type: "move" },
+		{ title: "Removed", type: "remove" },
+		{ title: "Conflicts", type: "conflict" },
+	];
+
+	for (const section of sections) {
+		const sectionChanges = changes.filter((c) => c.type === section.type);
+		if (sectionChanges.length === 0) continue;
+
+		md += `## ${section.title}\n`;
+		for (const change of sectionChanges) {
+			if (change.type === "conflict") {
+				// Conflicting notes stay where they are until resolved
+				md += `- ${noteLink(change.oldPath || change.path, change.name)}\n`;
+			} else if (change.trash) {
+				md += `- ${change.name} (deleted)\n`;
+			} else if (change.oldPath) {
+				md += `- ${noteLink(change.path, change.name)} (from \`${change.oldPath}\`)\n`;
+			} else {
+				md += `- ${noteLink(change.path, change.name)}\n`;
+			}
+		}
+		md += "\n";
+	}
+
+	const adopted = changes.filter((c) => c.adopted);
+	if (adopted.length > 0) {
+		md += "## Adopted Planned Events\n";
+		for (const change of adopted) {
+			md += `- ${noteLink(change.path, change.name)}\n`;
+		}
+		md += "\n";
+	}
+
+	if (planned.length > 0) {
+		md += "## Still Planned\n";
+		for (const event of planned) {
+			md += `- ${noteLink(event.path, event.name)}`;
+			if (event.fullPath) md += ` (\`${event.fullPath}\`)`;
+			md += "\n";
+		}
+		md += "\n";
+	}
+
+	const skipped = changes.filter((c) => c.type === "skip");
+	if (skipped.length > 0) {
+		md += "## Skipped\n";
+		for (const change of skipped) {
+			md += `- ${change.name}: ${change.reason || "Unknown reason"}\n`;
+		}
+		md += "\n";
+	}
+
+	if (failures.length > 0) {
+		md += "## Errors\n";
+		for (const failure of failures) {
+			md += `- ${failure.event}: ${failure.reason}\n`;
+		}
+		md += "\n";
+	}
+
+	return yaml + md;
+}
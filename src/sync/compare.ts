@@ -0,0 +1,170 @@
+import { TFile, normalizePath } from "obsidian";
+import type { App } from "obsidian";
+import type {
+	EventDiff,
+	ExportDiff,
+	FMODEvent,
+	FMODExportData,
+	FMODParameter,
+	FMODProjectConfig,
+	ParameterChange,
+} from "../types";
+import { readExportFile } from "./json-reader";
+import { ensureFolderExists, scanExistingNotes } from "./processor";
+import { validateExportData } from "../utils/validation";
+import { generateExportChangelog } from "../markdown/changelog";
+import { formatReportName } from "../markdown/report";
+
+/**
+ * Items in `after` but not in `before`.
+ */
+function missingFrom(before: string[], after: string[]): string[] {
+	const set = new Set(before);
+	return after.filter((item) => !set.has(item));
+}
+
+/**
+ * Describe a parameter's range, e.g. "0 to 10, initial 0".
+ */
+function formatRange(param: FMODParameter): string {
+	return `${param.min} to ${param.max}, initial ${param.initial}`;
+}
+
+function diffParameters(older: FMODParameter[], newer: FMODParameter[]): ParameterChange[] {
+	const oldByName = new Map(older.map((p) => [p.name, p]));
+	const newByName = new Map(newer.map((p) => [p.name, p]));
+	const changes: ParameterChange[] = [];
+
+	for (const [name, param] of newByName) {
+		const oldParam = oldByName.get(name);
+		const newRange = formatRange(param);
+		if (!oldParam) {
+			changes.push({ name, oldRange: null, newRange });
+		} else if (formatRange(oldParam) !== newRange) {
+			changes.push({ name, oldRange: formatRange(oldParam), newRange });
+		}
+	}
+	for (const [name, param] of oldByName) {
+		if (!newByName.has(name)) {
+			changes.push({ name, oldRange: formatRange(param), newRange: null });
+		}
+	}
+	return changes;
+}
+
+function diffEvent(older: FMODEvent, newer: FMODEvent): EventDiff {
+	const oldAudio = (older.audio_files || []).map((af) => af.asset_path || af.path);
+	const newAudio = (newer.audio_files || []).map((af) => af.asset_path || af.path);
+
+	return {
+		guid: newer.guid,
+		name: newer.name,
+		fullPath: newer.full_path,
+		folderPath: newer.folder_path,
+		oldName: older.name !== newer.name ? older.name : undefined,
+		oldFolderPath: older.folder_path !== newer.folder_path ? older.folder_path : undefined,
+		banksAdded: missingFrom(older.banks, newer.banks),
+		banksRemoved: missingFrom(newer.banks, older.banks),
+		parameters: diffParameters(older.parameters, newer.parameters),
+		audioAdded: missingFrom(oldAudio, newAudio),
+		audioRemoved: missingFrom(newAudio, oldAudio),
+	};
+}
+
+function hasEventChanges(diff: EventDiff): boolean {
+	return (
+		diff.oldName !== undefined ||
+		diff.oldFolderPath !== undefined ||
+		diff.banksAdded.length > 0 ||
+		diff.banksRemoved.length > 0 ||
+		diff.parameters.length > 0 ||
+		diff.audioAdded.length > 0 ||
+		diff.audioRemoved.length > 0
+	);
+}
+
+/**
+ * Compare two exports of a project, matching events by GUID.
+ */
+export function diffExports(older: FMODExportData, newer: FMODExportData): ExportDiff {
+	const oldByGuid = new Map(older.events.map((e) => [e.guid, e]));
+	const newGuids = new Set(newer.events.map((e) => e.guid));
+
+	const added: FMODEvent[] = [];
+	const changed: EventDiff[] = [];
+
+	for (const event of newer.events) {
+		const oldEvent = oldByGuid.get(event.guid);
+		if (!oldEvent) {
+			added.push(event);
+			continue;
+		}
+		const diff = diffEvent(oldEvent, event);
+		if (hasEventChanges(diff)) {
+			changed.push(diff);
+		}
+	}
+
+	const removed = older.events.filter((e) => !newGuids.has(e.guid));
+
+	return { older, newer, added, removed, changed };
+}
+
+/**
+ * Read and validate an export for comparison, throwing with the first problem found.
+ */
+async function readValidExport(app: App, filePath: string): Promise<FMODExportData> {
+	const validation = validateExportData(await readExportFile(app, filePath));
+	if (!validation.valid) {
+		throw new Error(`${filePath}: ${validation.errors[0]}`);
+	}
+	return validation.data!;
+}
+
+/**
+ * Compare two exports and write the changelog note under the project's Changelogs folder.
+ * The older of the two exports is always the starting point.
+ * Returns the written note.
+ */
+export async function writeExportChangelog(
+	app: App,
+	project: FMODProjectConfig,
+	firstPath: string,
+	secondPath: string
+): Promise<TFile> {
+	let older = await readValidExport(app, firstPath);
+	let newer = await readValidExport(app, secondPath);
+	if (older.exported_at > newer.exported_at) {
+		[older, newer] = [newer, older];
+	}
+
+	const diff = diffExports(older, newer);
+
+	// Link events to their notes by GUID, wherever the layout put them
+	const noteByGuid = new Map<string, string>();
+	for (const [notePath, note] of await scanExistingNotes(app, normalizePath(project.outputFolder))) {
+		const guid = note.frontmatter["fmod_guid"];
+		if (typeof guid === "string" && guid) {
+			noteByGuid.set(guid, notePath);
+		}
+	}
+
+	const projectName = newer.project_name || project.fmodProjectName || "";
+	const markdown = generateExportChangelog(diff, projectName, noteByGuid);
+
+	const changelogsPath = normalizePath(`${project.outputFolder}/Changelogs`);
+	await ensureFolderExists(app, changelogsPath);
+
+	const name =
+		`${formatReportName(new Date(older.exported_at))} to ` +
+		`${formatReportName(new Date(newer.exported_at))}`;
+	const notePath = normalizePath(`${changelogsPath}/${name}.md`);
+
+	// Comparing the same exports again replaces the earlier changelog
+	const existing = app.vault.getAbstractFileByPath(notePath);
+	if (existing instanceof TFile) {
+		await app.vault.modify(existing, markdown);
+		return existing;
+	}
+	return app.vault.create(notePath, markdown);
+}
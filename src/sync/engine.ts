@@ -4,19 +4,63 @@ import type {
 	FMODProjectConfig,
 	FMODExportData,
 	FMODAudioFileNote,
+	FMODStructureKind,
+	FMODStructureItem,
+	FMODStructureNote,
 	SyncStats,
 	SyncProgress,
 	SkipReason,
+	SyncChange,
+	SyncPlan,
+	ExistingNote,
+	PlannedEvent,
+	SyncHistoryEntry,
+	SyncHistoryDetails,
 } from "../types";
 import { validateExportData } from "../utils/validation";
-import { parseFrontmatter } from "../markdown/frontmatter";
-import { readJsonFile } from "./json-reader";
-import { ensureFolderExists, scanExistingNotes, processEvent, processAudioFiles } from "./processor";
+import { generateSyncReport, formatReportName, noteLink } from "../markdown/report";
+import { PLAN_YIELD_INTERVAL, STRUCTURE_FOLDERS } from "../constants";
+import { getPathTemplates, templateRoot } from "../utils/template";
+import { eventPassesFilter } from "../utils/filter";
+import { pruneAudioMetadataCache } from "../utils/audio-metadata";
+import type { AudioMetadataStore } from "../utils/audio-metadata";
+import { readExportFile } from "./json-reader";
+import { isPlannedNote, isAwaitingExport, toPlannedEvent } from "./planned";
+import { buildHistoryEntry } from "./history";
+import {
+	ensureFolderExists,
+	scanExistingNotes,
+	indexAudioNotesByPath,
+	eventNotePath,
+	planEvent,
+	planAudioFiles,
+	planStructureNotes,
+	structureNotePath,
+	findDuplicateNames,
+	resolveEventNoteName,
+	planOrphanNote,
+	applyChange,
+} from "./processor";
 
 export interface SyncEngineCallbacks {
 	onProgress?: (progress: SyncProgress) => void;
+	isCancelled?: () => boolean;
+	onConflicts?: (conflicts: SyncChange[]) => void;
+	onHistory?: (entry: SyncHistoryEntry, details: SyncHistoryDetails) => Promise<void>;
 	onSaveSettings: () => Promise<void>;
 	refreshSettingsTab: () => void;
+	audioMetadata?: AudioMetadataStore;  // Audio file headers from earlier syncs
+}
+
+/**
+ * A planned sync for one project, ready to be previewed or applied.
+ */
+export interface ProjectSyncPlan extends SyncPlan {
+	project: FMODProjectConfig;
+	exportData: FMODExportData;
+	projectName: string;
+	planned: PlannedEvent[];  // Planned notes with no matching event in this export
+	planDurationMs: number;   // Time spent planning, counted in the sync's duration
 }
 
 /**
@@ -29,7 +73,24 @@ export async function syncSingleProject(
 	callbacks: SyncEngineCallbacks,
 	silent = false
 ): Promise<SyncStats | null> {
-	const { onProgress, onSaveSettings, refreshSettingsTab } = callbacks;
+	const plan = await planProjectSync(app, project, callbacks, silent);
+	if (!plan) return null;
+	return applyProjectSync(app, plan, plan.changes, callbacks, silent);
+}
+
+/**
+ * Read a project's export and work out every change a sync would make,
+ * without writing anything to the vault.
+ * Returns the plan if successful, null if failed.
+ */
+export async function planProjectSync(
+	app: App,
+	project: FMODProjectConfig,
+	callbacks: SyncEngineCallbacks,
+	silent = false
+): Promise<ProjectSyncPlan | null> {
+	const { onProgress, isCancelled } = callbacks;
+	const startTime = Date.now();
 
 	// Helper to get display name for messages
 	const displayName = project.fmodProjectName || project.jsonFilePath.split("/").pop() || "Unknown";
@@ -52,12 +113,15 @@ export async function syncSingleProject(
 	// Read and parse JSON
 	let exportData: FMODExportData;
 	try {
-		const rawData = await readJsonFile(app, project.jsonFilePath);
+		const rawData = await readExportFile(app, project.jsonFilePath);
 
 		// Validate JSON structure
 		const validation = validateExportData(rawData);
 		if (!validation.valid) {
-			const errorMsg = validation.errors.slice(0, 3).join("\n");
+			let errorMsg = validation.errors.slice(0, 3).join("\n");
+			if (validation.errors.length > 3) {
+				errorMsg += `\n…and ${validation.errors.length - 3} more (see console)`;
+			}
 			new Notice(`FMOD Sync: Invalid JSON structure:\n${errorMsg}`);
 			console.error("FMOD Sync: JSON validation errors:", validation.errors);
 			return null;
@@ -65,81 +129,170 @@ export async function syncSingleProject(
 		exportData = validation.data!;
 	} catch (error) {
 		new Notice(
-			`FMOD Sync: Failed to read JSON.\nPath: ${project.jsonFilePath}\n${error}`
+			`FMOD Sync: Failed to read export.\nPath: ${project.jsonFilePath}\n${error}`
 		);
 		return null;
 	}
 
-	// Save all FMOD metadata from the JSON
-	project.fmodProjectName = exportData.project_name;
-	project.fmodProjectPath = exportData.project_path;
-	project.fmodVersion = exportData.fmod_version;
-	project.lastExportedAt = exportData.exported_at;
-	await onSaveSettings();
+	const projectName = exportData.project_name || displayName;
 
-	const projectName = project.fmodProjectName || displayName;
+	// Apply the project's include/exclude filters before processing
+	const events = exportData.events.filter((e) => eventPassesFilter(e, project.eventFilter));
+	const filteredCount = exportData.events.length - events.length;
 
 	if (!silent) {
 		new Notice(
-			`FMOD Sync: Processing ${exportData.events.length} events for "${projectName}"...`
+			`FMOD Sync: Processing ${events.length} events for "${projectName}"...` +
+			(filteredCount > 0 ? `\n${filteredCount} filtered out` : "")
 		);
 	}
 
-	// Use project's output folder with Events subfolder for event notes
+	// Note paths come from the project's layout templates, relative to its output folder
 	const outputPath = normalizePath(project.outputFolder);
-	const eventsPath = normalizePath(`${outputPath}/Events`);
-	const audioFilesPath = normalizePath(`${outputPath}/Audio Files`);
-	await ensureFolderExists(app, outputPath);
-	await ensureFolderExists(app, eventsPath);
+	const templates = getPathTemplates(project);
+	const eventsPath = templateRoot(outputPath, templates.event);
+	const archivePath = normalizePath(`${outputPath}/Archive`);
+	const reportsPath = normalizePath(`${outputPath}/Sync Reports`);
+	const changelogsPath = normalizePath(`${outputPath}/Changelogs`);
 
 	// Report scanning phase
-	onProgress?.({ phase: "scanning", current: 0, total: 0, eventName: "" });
-
-	// Build index of existing event notes by GUID and filename
-	// Scan both the new Events subfolder and the root for migration support
-	const existingEventNotes = await scanExistingNotes(app, eventsPath);
-	const existingRootNotes = await scanExistingNotes(app, outputPath);
-
-	// Merge notes, preferring Events subfolder
-	const allEventNotes = new Map([...existingRootNotes, ...existingEventNotes]);
+	onProgress?.({ phase: "scanning", current: 0, total: 0, eventName: "", projectName });
+
+	// Index existing notes from the metadata cache. The whole output folder is
+	// scanned, so notes are found wherever an earlier layout template put them.
+	const existingNotes = await scanExistingNotes(app, outputPath);
+
+	// With the same-folder strategy, name lookups are keyed by full path
+	const collisionStrategy = project.collisionStrategy || "skip";
+	const sameFolderOnly = collisionStrategy === "same-folder";
+
+	const notesByGuid = new Map<string, ExistingNote>();
+	const notesByName = new Map<string, ExistingNote>();
+	// Planned notes by their intended event:/ path
+	const plannedByPath = new Map<string, ExistingNote>();
+	// Audio file notes, including archived ones so they can be restored
+	const existingAudioNotes = new Map<string, ExistingNote>();
+	// Bank, bus, VCA and snapshot notes by GUID
+	const structureNotesByGuid = new Map<string, ExistingNote>();
+
+	for (const [notePath, note] of existingNotes) {
+		// Skip notes in Sync Reports and Changelogs folders
+		if (notePath.startsWith(`${reportsPath}/`) || notePath.startsWith(`${changelogsPath}/`)) continue;
+
+		// Audio file notes are recognised by the audio path they point to
+		if (note.frontmatter["fmod_path"]) {
+			existingAudioNotes.set(notePath, note);
+			continue;
+		}
 
-	const notesByGuid = new Map<string, { path: string; content: string }>();
-	const notesByName = new Map<string, { path: string; content: string }>();
+		const guid = note.frontmatter["fmod_guid"];
+		const inEventsRoot = notePath.startsWith(`${eventsPath}/`) && !notePath.startsWith(`${archivePath}/`);
 
-	for (const [notePath, content] of allEventNotes) {
-		// Skip notes in Audio Files folder
-		if (notePath.startsWith(audioFilesPath)) continue;
+		// Bank, bus, VCA and snapshot notes are recognised by their type
+		const structureKind = note.frontmatter["fmod_type"];
+		if (typeof structureKind === "string" && structureKind in STRUCTURE_FOLDERS) {
+			if (typeof guid === "string" && guid && (!structureNotesByGuid.has(guid) || !notePath.startsWith(`${archivePath}/`))) {
+				structureNotesByGuid.set(guid, note);
+			}
+			continue;
+		}
 
-		const frontmatter = parseFrontmatter(content);
-		const guid = frontmatter.properties["fmod_guid"] as string | undefined;
-		const filename = notePath.split("/").pop()?.replace(".md", "") || "";
+		if (typeof guid === "string" && guid) {
+			// Prefer the current events folder if an older note has the same GUID
+			if (!notesByGuid.has(guid) || inEventsRoot) {
+				notesByGuid.set(guid, note);
+			}
+		}
+		// Archived notes can be restored by GUID but should not claim names
+		if (!notePath.startsWith(`${archivePath}/`)) {
+			const plannedPath = note.frontmatter["fmod_full_path"];
+			if (isPlannedNote(note) && typeof plannedPath === "string" && plannedPath) {
+				plannedByPath.set(plannedPath, note);
+			}
 
-		if (guid) {
-			notesByGuid.set(guid, { path: notePath, content });
+			const nameKey = sameFolderOnly ? notePath : note.file.basename;
+			if (!notesByName.has(nameKey) || inEventsRoot) {
+				notesByName.set(nameKey, note);
+			}
 		}
-		notesByName.set(filename, { path: notePath, content });
 	}
 
-	// Scan existing audio file notes
-	const existingAudioNotes = await scanExistingNotes(app, audioFilesPath);
-
-	// Process events
-	const stats: SyncStats = {
-		created: 0,
-		updated: 0,
-		moved: 0,
-		skipped: 0,
-		errors: 0,
+	const plan: ProjectSyncPlan = {
+		project,
+		exportData,
+		projectName,
+		changes: [],
+		failures: [],
+		planned: [],
+		planDurationMs: 0,
 	};
 
-	const skippedEvents: SkipReason[] = [];
-	const total = exportData.events.length;
+	const total = events.length;
+	const duplicateNames = findDuplicateNames(events);
+	// Target paths already planned, so two events can't render to the same note
+	const claimedPaths = new Map<string, string>();
 
 	// Collect audio files across all events for bidirectional linking
 	const audioFileMap = new Map<string, FMODAudioFileNote>();
 
+	// Bank and bus notes are linked from event notes, and list the events in turn
+	const structureKinds: [FMODStructureKind, FMODStructureItem[]][] = [
+		["bank", exportData.banks],
+		["bus", exportData.buses],
+		["vca", exportData.vcas],
+		["snapshot", exportData.snapshots],
+	];
+	const structureLink = (kind: FMODStructureKind, item: FMODStructureItem) =>
+		noteLink(structureNotePath(kind, item, outputPath), item.name);
+	const bankLinks = new Map(exportData.banks.map((b) => [b.name, structureLink("bank", b)]));
+	const busLinks = new Map(exportData.buses.map((b) => [b.path, structureLink("bus", b)]));
+	const eventsByBank = new Map<string, string[]>();
+	const eventsByBus = new Map<string, string[]>();
+
+	// Work out every event's note path up front, so events can link to the events they play
+	const eventTargets = events.map((event) => {
+		const noteName = resolveEventNoteName(
+			event,
+			duplicateNames,
+			collisionStrategy,
+			notesByGuid.get(event.guid)?.file.basename
+		);
+		const targetPath = eventNotePath(event, noteName, outputPath, templates.event, projectName);
+		const claimedBy = claimedPaths.get(targetPath);
+		if (!claimedBy) {
+			claimedPaths.set(targetPath, event.full_path);
+		}
+		return { noteName, targetPath, claimedBy };
+	});
+	const eventLinksByGuid = new Map<string, string>();
+	events.forEach((event, i) => {
+		if (!eventTargets[i].claimedBy) {
+			eventLinksByGuid.set(event.guid, noteLink(eventTargets[i].targetPath, event.name));
+		}
+	});
+	// Events left out by the filter may still have a note from an earlier sync
+	const linkToEvent = (guid: string): string | undefined => {
+		const existing = notesByGuid.get(guid);
+		return eventLinksByGuid.get(guid) ?? (existing ? noteLink(existing.path, existing.file.basename) : undefined);
+	};
+	const usedBy = new Map<string, string[]>();
+	events.forEach((event, i) => {
+		if (eventTargets[i].claimedBy) return;
+		for (const guid of event.referenced_events) {
+			addToList(usedBy, guid, eventLinksByGuid.get(event.guid)!);
+		}
+	});
+
 	for (let i = 0; i < total; i++) {
-		const event = exportData.events[i];
+		const event = events[i];
+
+		// Stop before writing anything if the user cancelled
+		if (isCancelled?.()) {
+			if (!silent) {
+				new Notice("FMOD Sync: Cancelled before any notes were changed.");
+			}
+			return null;
+		}
 
 		// Report progress
 		onProgress?.({
@@ -147,21 +300,57 @@ export async function syncSingleProject(
 			current: i + 1,
 			total,
 			eventName: event.name,
+			projectName,
 		});
 
+		// Planning doesn't touch the disk, so yield now and then to keep the UI responsive
+		if (i % PLAN_YIELD_INTERVAL === 0) {
+			await new Promise((r) => setTimeout(r, 0));
+		}
+
 		try {
-			// Process event note (now in Events subfolder)
-			await processEvent(
-				app,
-				event,
-				eventsPath,
-				notesByGuid,
-				notesByName,
-				exportData.exported_at,
-				projectName,
-				stats,
-				skippedEvents
-			);
+			// Plan event note at the path given by the event template
+			const { noteName, targetPath, claimedBy } = eventTargets[i];
+			if (claimedBy) {
+				plan.changes.push({
+					type: "skip",
+					noteKind: "event",
+					name: event.name,
+					path: targetPath,
+					reason: `Path collision: ${claimedBy} already uses this note path`,
+				});
+			} else {
+				const links = {
+					banks: event.banks.map((b) => bankLinks.get(b)).filter((l): l is string => l !== undefined),
+					outputBus: busLinks.get(event.output_bus) || "",
+					uses: event.referenced_events.map(linkToEvent).filter((l): l is string => l !== undefined),
+					usedBy: usedBy.get(event.guid) || [],
+				};
+				const change = await planEvent(
+					app,
+					event,
+					targetPath,
+					notesByGuid,
+					notesByName,
+					plannedByPath,
+					exportData.exported_at,
+					projectName,
+					noteName,
+					sameFolderOnly,
+					links
+				);
+				plan.changes.push(change);
+
+				if (change.type !== "skip") {
+					const eventLink = noteLink(targetPath, event.name);
+					for (const bank of event.banks) {
+						addToList(eventsByBank, bank, eventLink);
+					}
+					if (event.output_bus) {
+						addToList(eventsByBus, event.output_bus, eventLink);
+					}
+				}
+			}
 
 			// Collect audio files for this event
 			if (event.audio_files && event.audio_files.length > 0) {
@@ -171,8 +360,8 @@ export async function syncSingleProject(
 
 					if (existing) {
 						// Audio file already seen, add this event to its list
-						if (!existing.eventNames.includes(event.name)) {
-							existing.eventNames.push(event.name);
+						if (!existing.eventNames.includes(noteName)) {
+							existing.eventNames.push(noteName);
 						}
 					} else {
 						// New audio file
@@ -184,50 +373,268 @@ export async function syncSingleProject(
 							filename,
 							absolutePath: audioFile.path,
 							assetPath: audioFile.asset_path || "",
-							eventNames: [event.name],
+							eventNames: [noteName],
 						});
 					}
 				}
 			}
 		} catch (error) {
 			console.error(`FMOD Sync: Error processing event ${event.name}:`, error);
-			stats.errors++;
+			plan.failures.push({ event: event.name, reason: String(error) });
+		}
+	}
+
+	// Planned notes that no event adopted are still waiting to be implemented
+	const adoptedPaths = new Set(
+		plan.changes.filter((c) => c.adopted).map((c) => c.oldPath || c.path)
+	);
+	for (const note of existingNotes.values()) {
+		if (isPlannedNote(note) && !adoptedPaths.has(note.path) && !note.path.startsWith(`${archivePath}/`)) {
+			plan.planned.push(toPlannedEvent(note));
 		}
 	}
 
-	// Process audio file notes
+	// Plan audio file notes
+	const audioMetadataCache = (await callbacks.audioMetadata?.load(project.id)) ?? {};
 	const audioFileNotes = Array.from(audioFileMap.values());
 	if (audioFileNotes.length > 0) {
-		await processAudioFiles(
+		await planAudioFiles(
 			app,
 			audioFileNotes,
 			outputPath,
+			templates.audio,
 			existingAudioNotes,
 			exportData.exported_at,
 			projectName,
-			stats
+			plan,
+			audioMetadataCache
 		);
 	}
+	// Keep the headers for the next sync, forgetting files the export no longer has.
+	// Filtered-out events are still in FMOD, so their audio files count as exported.
+	const exportedAudioPaths = new Set(
+		exportData.events.flatMap((e) => (e.audio_files || []).map((af) => af.path))
+	);
+	pruneAudioMetadataCache(audioMetadataCache, exportedAudioPaths);
+	try {
+		await callbacks.audioMetadata?.save(project.id, audioMetadataCache);
+	} catch (error) {
+		console.error(`FMOD Sync: Could not save the audio metadata cache of "${projectName}":`, error);
+	}
+
+	// Plan bank, bus, VCA and snapshot notes
+	const structureNotes: FMODStructureNote[] = [];
+	for (const [kind, items] of structureKinds) {
+		for (const item of items) {
+			structureNotes.push({
+				kind,
+				item,
+				output: kind === "bus" ? busLinks.get(item.parent) || "" : "",
+				inputs: kind === "bus"
+					? exportData.buses.filter((b) => b.parent && b.parent === item.path).map((b) => structureLink("bus", b))
+					: [],
+				events: kind === "bank"
+					? eventsByBank.get(item.name) || []
+					: kind === "bus" ? eventsByBus.get(item.path) || [] : [],
+			});
+		}
+	}
+	await planStructureNotes(
+		app,
+		structureNotes,
+		outputPath,
+		structureNotesByGuid,
+		exportData.exported_at,
+		projectName,
+		plan
+	);
+
+	// Handle notes whose event or audio file no longer exists in FMOD
+	const orphanAction = project.orphanAction || "mark";
+	// Filtered-out events are still in FMOD, so their notes (and audio files) aren't orphans
+	const exportedGuids = new Set(exportData.events.map((e) => e.guid));
+	const orphanNotes: ExistingNote[] = [];
+
+	for (const [guid, note] of notesByGuid) {
+		// Events just created from planned notes only show up in the next export
+		if (!exportedGuids.has(guid) && !isAwaitingExport(note, exportData.exported_at)) {
+			orphanNotes.push(note);
+		}
+	}
+	for (const [audioPath, note] of indexAudioNotesByPath(existingAudioNotes)) {
+		if (!exportedAudioPaths.has(audioPath)) {
+			orphanNotes.push(note);
+		}
+	}
+	const exportedStructureGuids = new Set(structureKinds.flatMap(([, items]) => items.map((item) => item.guid)));
+	for (const [guid, note] of structureNotesByGuid) {
+		if (!exportedStructureGuids.has(guid)) {
+			orphanNotes.push(note);
+		}
+	}
+
+	for (const note of orphanNotes) {
+		try {
+			const change = await planOrphanNote(
+				app,
+				note,
+				outputPath,
+				archivePath,
+				orphanAction,
+				exportData.exported_at
+			);
+			if (change) {
+				plan.changes.push(change);
+			}
+		} catch (error) {
+			console.error(`FMOD Sync: Error processing removed note ${note.path}:`, error);
+			plan.failures.push({ event: note.file.basename, reason: String(error) });
+		}
+	}
+
+	plan.planDurationMs = Date.now() - startTime;
+	return plan;
+}
+
+/**
+ * Apply the selected changes of a sync plan to the vault.
+ * Pass plan.changes to apply everything, or a subset from the preview.
+ */
+export async function applyProjectSync(
+	app: App,
+	plan: ProjectSyncPlan,
+	changes: SyncChange[],
+	callbacks: SyncEngineCallbacks,
+	silent = false
+): Promise<SyncStats> {
+	const { onProgress, isCancelled, onSaveSettings, refreshSettingsTab } = callbacks;
+	const { project, exportData, projectName } = plan;
+	const startTime = Date.now();
+
+	// Save all FMOD metadata from the JSON
+	project.fmodProjectName = exportData.project_name;
+	project.fmodProjectPath = exportData.project_path;
+	// Project files don't always record the FMOD version, so keep the last known one
+	project.fmodVersion = exportData.fmod_version || project.fmodVersion;
+	project.lastExportedAt = exportData.exported_at;
+	project.plannedEvents = plan.planned;
+	await onSaveSettings();
+
+	const outputPath = normalizePath(project.outputFolder);
+	await ensureFolderExists(app, outputPath);
+
+	const stats: SyncStats = {
+		created: 0,
+		updated: 0,
+		moved: 0,
+		skipped: 0,
+		unchanged: 0,
+		removed: 0,
+		conflicts: 0,
+		errors: plan.failures.length,
+	};
+
+	const skippedEvents: SkipReason[] = [];
+	const conflicts: SyncChange[] = [];
+	const failures: SkipReason[] = [...plan.failures];
+	const total = changes.length;
+	// Changes as they were applied, with notes edited since planning turned into skips
+	const applied: SyncChange[] = [];
+
+	for (let i = 0; i < total; i++) {
+		const change = changes[i];
+
+		// Stop safely between notes if the user cancelled
+		if (isCancelled?.()) {
+			stats.cancelled = true;
+			break;
+		}
+
+		// Report progress
+		onProgress?.({
+			phase: "writing",
+			current: i + 1,
+			total,
+			eventName: change.name,
+			projectName,
+		});
+
+		try {
+			const staleReason = await applyChange(app, change, stats);
+			if (staleReason) {
+				applied.push({ ...change, type: "skip", reason: staleReason });
+				skippedEvents.push({ event: change.name, reason: staleReason });
+				continue;
+			}
+			if (change.type === "skip") {
+				skippedEvents.push({ event: change.name, reason: change.reason || "" });
+			} else if (change.type === "conflict") {
+				conflicts.push(change);
+			}
+		} catch (error) {
+			console.error(`FMOD Sync: Error writing note ${change.path}:`, error);
+			failures.push({ event: change.name, reason: String(error) });
+			stats.errors++;
+		}
+		applied.push(change);
+	}
 
 	// Report completion
-	onProgress?.({ phase: "complete", current: total, total, eventName: "" });
+	onProgress?.({ phase: "complete", current: applied.length, total, eventName: "", projectName });
+
+	// Write changelog note
+	let reportPath: string | null = null;
+	if (project.writeSyncReport) {
+		try {
+			reportPath = await writeSyncReport(app, plan, applied, stats, failures);
+		} catch (error) {
+			console.error("FMOD Sync: Failed to write sync report:", error);
+		}
+	}
+
+	// Record the sync in the project's history
+	if (callbacks.onHistory) {
+		try {
+			const durationMs = plan.planDurationMs + (Date.now() - startTime);
+			const { entry, details } = buildHistoryEntry(plan, applied, stats, skippedEvents, durationMs);
+			await callbacks.onHistory(entry, details);
+		} catch (error) {
+			console.error("FMOD Sync: Failed to record sync history:", error);
+		}
+	}
 
 	// Log skipped events
 	if (skippedEvents.length > 0) {
 		console.warn("FMOD Sync: Skipped events:", skippedEvents);
 		new Notice(
-			`FMOD Sync: Skipped ${skippedEvents.length} event(s) due to conflicts. Check console for details.`
+			reportPath
+				? `FMOD Sync: Skipped ${skippedEvents.length} event(s) due to conflicts. See ${reportPath} for details.`
+				: `FMOD Sync: Skipped ${skippedEvents.length} event(s) due to conflicts. Check console for details.`
 		);
 	}
 
+	// Let the user choose how to resolve conflicting edits
+	if (conflicts.length > 0) {
+		if (callbacks.onConflicts) {
+			callbacks.onConflicts(conflicts);
+		} else {
+			new Notice(`FMOD Sync: ${conflicts.length} note(s) were edited in both Obsidian and FMOD and were left unchanged.`);
+		}
+	}
+
 	// Show summary (only if not silent)
 	if (!silent) {
 		const summary = [
-			`FMOD Sync Complete for "${projectName}"!`,
+			stats.cancelled
+				? `FMOD Sync Cancelled for "${projectName}" (${applied.length} of ${total} notes processed)`
+				: `FMOD Sync Complete for "${projectName}"!`,
 			`Created: ${stats.created}`,
 			`Updated: ${stats.updated}`,
+			`Unchanged: ${stats.unchanged}`,
 			`Moved: ${stats.moved}`,
 			`Skipped: ${stats.skipped}`,
+			stats.removed > 0 ? `Removed: ${stats.removed}` : "",
+			stats.conflicts > 0 ? `Conflicts: ${stats.conflicts}` : "",
 			stats.errors > 0 ? `Errors: ${stats.errors}` : "",
 		]
 			.filter(Boolean)
@@ -242,6 +649,53 @@ export async function syncSingleProject(
 	return stats;
 }
 
+/**
+ * Write the changelog note for an applied sync under the project's Sync Reports folder.
+ * Returns the path of the written note.
+ */
+async function writeSyncReport(
+	app: App,
+	plan: ProjectSyncPlan,
+	changes: SyncChange[],
+	stats: SyncStats,
+	failures: SkipReason[]
+): Promise<string> {
+	const syncedAt = new Date();
+	const reportsPath = normalizePath(`${plan.project.outputFolder}/Sync Reports`);
+	await ensureFolderExists(app, reportsPath);
+
+	// Avoid overwriting an earlier report from the same minute
+	const baseName = formatReportName(syncedAt);
+	let reportPath = normalizePath(`${reportsPath}/${baseName}.md`);
+	for (let n = 2; app.vault.getAbstractFileByPath(reportPath); n++) {
+		reportPath = normalizePath(`${reportsPath}/${baseName} (${n}).md`);
+	}
+
+	const markdown = generateSyncReport(
+		plan.projectName,
+		plan.exportData.exported_at,
+		syncedAt,
+		stats,
+		changes,
+		failures,
+		plan.planned
+	);
+	await app.vault.create(reportPath, markdown);
+	return reportPath;
+}
+
+/**
+ * Append a value to the list stored under a key, creating the list if needed.
+ */
+function addToList(map: Map<string, string[]>, key: string, value: string): void {
+	const list = map.get(key);
+	if (list) {
+		list.push(value);
+	} else {
+		map.set(key, [value]);
+	}
+}
+
 /**
  * Sync multiple FMOD projects.
  */
@@ -255,6 +709,9 @@ export async function syncProjects(
 		updated: 0,
 		moved: 0,
 		skipped: 0,
+		unchanged: 0,
+		removed: 0,
+		conflicts: 0,
 		errors: 0,
 	};
 
@@ -262,26 +719,35 @@ export async function syncProjects(
 	let failCount = 0;
 
 	for (const project of projects) {
+		// Stop between projects if the user cancelled
+		if (callbacks.isCancelled?.()) break;
+
 		const stats = await syncSingleProject(app, project, callbacks, true);
 		if (stats) {
 			successCount++;
 			totalStats.created += stats.created;
 			totalStats.updated += stats.updated;
+			totalStats.unchanged += stats.unchanged;
 			totalStats.moved += stats.moved;
 			totalStats.skipped += stats.skipped;
+			totalStats.removed += stats.removed;
+			totalStats.conflicts += stats.conflicts;
 			totalStats.errors += stats.errors;
-		} else {
+		} else if (!callbacks.isCancelled?.()) {
 			failCount++;
 		}
 	}
 
 	const summary = [
-		`FMOD Sync Complete!`,
+		callbacks.isCancelled?.() ? `FMOD Sync Cancelled` : `FMOD Sync Complete!`,
 		`Projects: ${successCount} synced${failCount > 0 ? `, ${failCount} failed` : ""}`,
 		`Created: ${totalStats.created}`,
 		`Updated: ${totalStats.updated}`,
+		`Unchanged: ${totalStats.unchanged}`,
 		`Moved: ${totalStats.moved}`,
 		`Skipped: ${totalStats.skipped}`,
+		totalStats.removed > 0 ? `Removed: ${totalStats.removed}` : "",
+		totalStats.conflicts > 0 ? `Conflicts: ${totalStats.conflicts}` : "",
 		totalStats.errors > 0 ? `Errors: ${totalStats.errors}` : "",
 	]
 		.filter(Boolean)
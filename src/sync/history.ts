@@ -0,0 +1,127 @@
+import { normalizePath } from "obsidian";
+import type { DataAdapter } from "obsidian";
+import type {
+	FieldChange,
+	SkipReason,
+	SyncChange,
+	SyncHistoryDetails,
+	SyncHistoryEntry,
+	SyncStats,
+} from "../types";
+import { parseFrontmatter } from "../markdown/frontmatter";
+import type { ProjectSyncPlan } from "./engine";
+
+// Properties that change on every write and would only add noise
+const IGNORED_FIELDS = ["fmod_last_synced", "fmod_source_hash", "fmod_managed_hash"];
+
+function formatValue(value: unknown): string {
+	return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+/**
+ * List the frontmatter properties that differ between two versions of a note.
+ */
+export function diffFrontmatter(oldContent: string, newContent: string): FieldChange[] {
+	const oldProps = parseFrontmatter(oldContent).properties;
+	const newProps = parseFrontmatter(newContent).properties;
+	const keys = new Set([...Object.keys(oldProps), ...Object.keys(newProps)]);
+
+	const fields: FieldChange[] = [];
+	for (const key of keys) {
+		if (IGNORED_FIELDS.includes(key)) continue;
+		const oldValue = key in oldProps ? formatValue(oldProps[key]) : null;
+		const newValue = key in newProps ? formatValue(newProps[key]) : null;
+		if (oldValue !== newValue) {
+			fields.push({ key, oldValue, newValue });
+		}
+	}
+	return fields;
+}
+
+/**
+ * Build the history entry for an applied sync, split into the summary kept in
+ * the settings and the details kept in their own file.
+ * Unchanged notes are left out; updated and moved notes record which properties changed.
+ */
+export function buildHistoryEntry(
+	plan: ProjectSyncPlan,
+	changes: SyncChange[],
+	stats: SyncStats,
+	skipped: SkipReason[],
+	durationMs: number
+): { entry: SyncHistoryEntry; details: SyncHistoryDetails } {
+	const syncedAt = new Date();
+	return {
+		entry: {
+			id: `${plan.project.id}-${syncedAt.getTime()}`,
+			projectId: plan.project.id,
+			projectName: plan.projectName,
+			exportFile: plan.project.jsonFilePath,
+			exportedAt: plan.exportData.exported_at,
+			fmodVersion: plan.exportData.fmod_version,
+			syncedAt: syncedAt.toISOString(),
+			durationMs,
+			stats: { ...stats },
+		},
+		details: {
+			skipped,
+			changes: changes
+				.filter((c) => c.type !== "unchanged")
+				.map((c) => ({
+					type: c.type,
+					name: c.name,
+					path: c.path,
+					oldPath: c.oldPath,
+					fields: c.oldContent && c.content && !c.trash
+						? diffFrontmatter(c.oldContent, c.content)
+						: undefined,
+				})),
+		},
+	};
+}
+
+/**
+ * Stores the details of each sync as a JSON file in a folder of the plugin's directory.
+ * A large sync can list thousands of changes, which would otherwise be rewritten
+ * with the settings on every save.
+ */
+export class SyncHistoryStore {
+	private adapter: DataAdapter;
+	private folder: string;
+
+	constructor(adapter: DataAdapter, folder: string) {
+		this.adapter = adapter;
+		this.folder = normalizePath(folder);
+	}
+
+	async write(id: string, details: SyncHistoryDetails): Promise<void> {
+		if (!(await this.adapter.exists(this.folder))) {
+			await this.adapter.mkdir(this.folder);
+		}
+		await this.adapter.write(this.pathFor(id), JSON.stringify(details));
+	}
+
+	/**
+	 * Read the details of a sync. Returns null if they are missing or unreadable.
+	 */
+	async read(id: string): Promise<SyncHistoryDetails | null> {
+		try {
+			return JSON.parse(await this.adapter.read(this.pathFor(id)));
+		} catch {
+			return null;
+		}
+	}
+
+	async remove(ids: string[]): Promise<void> {
+		for (const id of ids) {
+			const filePath = this.pathFor(id);
+			if (await this.adapter.exists(filePath)) {
+				await this.adapter.remove(filePath);
+			}
+		}
+	}
+
+	private pathFor(id: string): string {
+		return `${this.folder}/${id}.json`;
+	}
+}
@@ -4,6 +4,18 @@ import { TFile, normalizePath } from "obsidian";
 import type { App } from "obsidian";
 import type { FMODExportData, NewerExportInfo } from "../types";
 import { parseExportFilename } from "../utils/filename";
+import { readProjectMetadata } from "./metadata-reader";
+
+/**
+ * Read a project's event data. An FMOD Studio project file (.fspro) is read
+ * from its Metadata XML, anything else as a JSON export.
+ */
+export async function readExportFile(app: App, filePath: string): Promise<FMODExportData> {
+	if (filePath.toLowerCase().endsWith(".fspro")) {
+		return readProjectMetadata(filePath);
+	}
+	return readJsonFile(app, filePath);
+}
 
 /**
  * Read and parse a JSON export file.
@@ -36,29 +48,25 @@ export async function readJsonFile(app: App, filePath: string): Promise<FMODExpo
 }
 
 /**
- * Scan a directory for newer exports matching the same project name.
- * Returns info about the newest file if it's newer than the current file.
+ * List every timestamped export of the same project in the current file's directory.
+ * Returns the exports newest first, including the current file.
  */
-export async function findNewerExport(currentPath: string): Promise<NewerExportInfo | null> {
-	if (!currentPath) return null;
+export async function listProjectExports(currentPath: string): Promise<NewerExportInfo[]> {
+	if (!currentPath) return [];
 
 	const directory = path.dirname(currentPath);
-	const currentFilename = path.basename(currentPath);
-	const currentParsed = parseExportFilename(currentFilename);
-
-	if (!currentParsed) return null; // Current file doesn't match expected format
+	const currentParsed = parseExportFilename(path.basename(currentPath));
 
-	const currentProjectName = currentParsed.projectName;
-	const currentDate = currentParsed.date;
+	if (!currentParsed) return []; // Current file doesn't match expected format
 
 	return new Promise((resolve) => {
 		fs.readdir(directory, (err, files) => {
 			if (err) {
-				resolve(null);
+				resolve([]);
 				return;
 			}
 
-			let newestExport: NewerExportInfo | null = null;
+			const exports: NewerExportInfo[] = [];
 
 			for (const file of files) {
 				if (!file.endsWith(".json")) continue;
@@ -67,21 +75,30 @@ export async function findNewerExport(currentPath: string): Promise<NewerExportI
 				if (!parsed) continue;
 
 				// Only consider files from the same project
-				if (parsed.projectName !== currentProjectName) continue;
+				if (parsed.projectName !== currentParsed.projectName) continue;
 
-				// Check if this file is newer than current
-				if (parsed.date > currentDate) {
-					if (!newestExport || parsed.date > newestExport.exportDate) {
-						newestExport = {
-							filePath: path.join(directory, file),
-							projectName: parsed.projectName,
-							exportDate: parsed.date,
-						};
-					}
-				}
+				exports.push({
+					filePath: path.join(directory, file),
+					projectName: parsed.projectName,
+					exportDate: parsed.date,
+				});
 			}
 
-			resolve(newestExport);
+			exports.sort((a, b) => b.exportDate.getTime() - a.exportDate.getTime());
+			resolve(exports);
 		});
 	});
 }
+
+/**
+ * Scan a directory for newer exports matching the same project name.
+ * Returns info about the newest file if it's newer than the current file.
+ */
+export async function findNewerExport(currentPath: string): Promise<NewerExportInfo | null> {
+	const currentParsed = parseExportFilename(path.basename(currentPath || ""));
+	if (!currentParsed) return null; // Current file doesn't match expected format
+
+	const exports = await listProjectExports(currentPath);
+	const newest = exports[0];
+	return newest && newest.exportDate > currentParsed.date ? newest : null;
+}
@@ -0,0 +1,422 @@
+import * as fs from "fs";
+import * as path from "path";
+import type {
+	FMODAudioFile,
+	FMODEvent,
+	FMODExportData,
+	FMODParameter,
+	FMODStructureItem,
+	FMODTimeline,
+	FMODUserProperty,
+} from "../types";
+import { EXPORT_SCHEMA_VERSION } from "../constants";
+
+/** One <object> from an FMOD Studio metadata file. */
+interface MetadataObject {
+	id: string;
+	className: string;
+	properties: Record<string, string[]>;
+	relationships: Record<string, string[]>;
+	file: string;
+}
+
+/** Every object in a project's Metadata folder, indexed by GUID and by file. */
+interface MetadataIndex {
+	byId: Map<string, MetadataObject>;
+	byFile: Map<string, MetadataObject[]>;
+}
+
+/**
+ * Recursively list the XML files under a directory.
+ */
+async function listXmlFiles(directory: string): Promise<string[]> {
+	const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+	const files: string[] = [];
+
+	for (const entry of entries) {
+		const fullPath = path.join(directory, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...(await listXmlFiles(fullPath)));
+		} else if (entry.name.endsWith(".xml")) {
+			files.push(fullPath);
+		}
+	}
+	return files;
+}
+
+/**
+ * Parse the objects in one metadata file.
+ * Properties hold their <value> texts, relationships their <destination> GUIDs.
+ */
+function parseMetadataFile(xml: string, file: string): MetadataObject[] {
+	const doc = new DOMParser().parseFromString(xml, "text/xml");
+	if (doc.getElementsByTagName("parsererror").length > 0) {
+		throw new Error(`Failed to parse ${file}`);
+	}
+
+	const objects: MetadataObject[] = [];
+	for (const el of Array.from(doc.getElementsByTagName("object"))) {
+		const obj: MetadataObject = {
+			id: el.getAttribute("id") || "",
+			className: el.getAttribute("class") || "",
+			properties: {},
+			relationships: {},
+			file,
+		};
+
+		for (const child of Array.from(el.children)) {
+			const name = child.getAttribute("name");
+			if (!name) continue;
+			if (child.tagName === "property") {
+				obj.properties[name] = Array.from(child.getElementsByTagName("value")).map((v) => v.textContent || "");
+			} else if (child.tagName === "relationship") {
+				obj.relationships[name] = Array.from(child.getElementsByTagName("destination")).map((d) => d.textContent || "");
+			}
+		}
+
+		objects.push(obj);
+	}
+	return objects;
+}
+
+function getProperty(obj: MetadataObject | undefined, name: string): string | undefined {
+	return obj?.properties[name]?.[0];
+}
+
+function getRelated(index: MetadataIndex, obj: MetadataObject | undefined, name: string): MetadataObject[] {
+	const ids = obj?.relationships[name] || [];
+	return ids.map((id) => index.byId.get(id)).filter((o): o is MetadataObject => o !== undefined);
+}
+
+/** Convert a numeric property to a number, keeping other values as strings like the export script. */
+function toValue(value: string | undefined, fallback: number | string): number | string {
+	if (value === undefined || value === "") return fallback;
+	const num = Number(value);
+	return Number.isFinite(num) ? num : value;
+}
+
+/**
+ * Build an event folder path, e.g. "UI/Menus", by walking up to the master folder.
+ */
+function getFolderPath(index: MetadataIndex, event: MetadataObject): string {
+	const parts: string[] = [];
+	const seen = new Set<string>();
+	let folder = getRelated(index, event, "folder")[0];
+
+	while (folder && folder.className !== "MasterEventFolder" && !seen.has(folder.id)) {
+		seen.add(folder.id);
+		parts.unshift(getProperty(folder, "name") || "");
+		folder = getRelated(index, folder, "folder")[0];
+	}
+	return parts.filter(Boolean).join("/");
+}
+
+/**
+ * Read an event's parameters through its parameter proxies.
+ * FMOD leaves properties at their default value out of the XML.
+ */
+function getParameters(index: MetadataIndex, event: MetadataObject): FMODParameter[] {
+	const byName = new Map<string, FMODParameter>();
+
+	for (const proxy of getRelated(index, event, "parameters")) {
+		const preset = getRelated(index, proxy, "preset")[0];
+		const parameter = getRelated(index, preset || proxy, "parameter")[0];
+		const name = getProperty(preset, "name") || getProperty(parameter, "name");
+		if (!name) continue;
+
+		const min = toValue(getProperty(parameter, "minimum"), 0);
+		byName.set(name, {
+			name,
+			type: getProperty(parameter, "parameterType") || "",
+			min,
+			max: toValue(getProperty(parameter, "maximum"), 1),
+			initial: toValue(getProperty(parameter, "initialValue"), min),
+			labels: (parameter?.properties["enumerationLabels"] || []).join(", "),
+		});
+	}
+
+	return [...byName.keys()].sort().map((name) => byName.get(name)!);
+}
+
+/**
+ * Read user properties from the objects stored in the event's file.
+ */
+function getUserProperties(objects: MetadataObject[]): FMODUserProperty[] {
+	const props: FMODUserProperty[] = [];
+
+	for (const obj of objects) {
+		if (!obj.className.includes("UserProperty")) continue;
+		const name = getProperty(obj, "key") || getProperty(obj, "name");
+		if (!name) continue;
+		props.push({ name, type: "", value: toValue(getProperty(obj, "value"), "") });
+	}
+
+	return props.sort((a, b) => (a.name < b.name ? -1 : 1));
+}
+
+/**
+ * Find the audio files played by the sounds in an event's file.
+ */
+function getAudioFiles(index: MetadataIndex, objects: MetadataObject[], assetsDirectory: string): FMODAudioFile[] {
+	const byAssetPath = new Map<string, FMODAudioFile>();
+
+	for (const obj of objects) {
+		for (const audioFile of getRelated(index, obj, "audioFile")) {
+			const assetPath = getProperty(audioFile, "assetPath");
+			if (!assetPath || byAssetPath.has(assetPath)) continue;
+			byAssetPath.set(assetPath, { path: `${assetsDirectory}/${assetPath}`, asset_path: assetPath });
+		}
+	}
+
+	return [...byAssetPath.values()].sort((a, b) =>
+		a.asset_path < b.asset_path ? -1 : a.asset_path > b.asset_path ? 1 : 0
+	);
+}
+
+/**
+ * Build a bank, VCA or snapshot path such as "bank:/Music/Level 1" by walking up its folders.
+ */
+function getStructurePath(index: MetadataIndex, obj: MetadataObject, prefix: string): string {
+	const parts = [getProperty(obj, "name") || ""];
+	const seen = new Set<string>();
+	let folder = getRelated(index, obj, "folder")[0];
+
+	while (folder && !folder.className.startsWith("Master") && !seen.has(folder.id)) {
+		seen.add(folder.id);
+		parts.unshift(getProperty(folder, "name") || "");
+		folder = getRelated(index, folder, "folder")[0];
+	}
+	return `${prefix}${parts.filter(Boolean).join("/")}`;
+}
+
+/**
+ * Build a bus path such as "bus:/SFX/Footsteps" by following its routing up to the master bus.
+ */
+function getBusPath(index: MetadataIndex, bus: MetadataObject | undefined): string {
+	const parts: string[] = [];
+	const seen = new Set<string>();
+
+	while (bus && bus.className !== "MixerMaster" && !seen.has(bus.id)) {
+		seen.add(bus.id);
+		parts.unshift(getProperty(bus, "name") || "");
+		bus = getRelated(index, bus, "output")[0];
+	}
+	return `bus:/${parts.filter(Boolean).join("/")}`;
+}
+
+function buildStructureItem(obj: MetadataObject, name: string, path: string, parent = ""): FMODStructureItem {
+	return { guid: obj.id, name, path, parent, notes: getProperty(obj, "note") || "" };
+}
+
+/**
+ * Read the banks, buses, VCAs and snapshots of the project, sorted by path.
+ */
+function getStructure(index: MetadataIndex): Pick<FMODExportData, "banks" | "buses" | "vcas" | "snapshots"> {
+	const banks: FMODStructureItem[] = [];
+	const buses: FMODStructureItem[] = [];
+	const vcas: FMODStructureItem[] = [];
+	const snapshots: FMODStructureItem[] = [];
+
+	for (const obj of index.byId.values()) {
+		const name = getProperty(obj, "name") || "";
+		switch (obj.className) {
+			case "Bank":
+			case "MasterBank":
+				banks.push(buildStructureItem(obj, name, getStructurePath(index, obj, "bank:/")));
+				break;
+			case "MixerMaster":
+				buses.push(buildStructureItem(obj, "Master Bus", "bus:/"));
+				break;
+			case "MixerGroup":
+			case "MixerReturn": {
+				const output = getRelated(index, obj, "output")[0];
+				buses.push(buildStructureItem(obj, name, getBusPath(index, obj), output ? getBusPath(index, output) : ""));
+				break;
+			}
+			case "MixerVCA":
+				vcas.push(buildStructureItem(obj, name, getStructurePath(index, obj, "vca:/")));
+				break;
+			case "Snapshot":
+				snapshots.push(buildStructureItem(obj, name, getStructurePath(index, obj, "snapshot:/")));
+				break;
+		}
+	}
+
+	const byPath = (a: FMODStructureItem, b: FMODStructureItem) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+	return {
+		banks: banks.sort(byPath),
+		buses: buses.sort(byPath),
+		vcas: vcas.sort(byPath),
+		snapshots: snapshots.sort(byPath),
+	};
+}
+
+function toSeconds(value: string | undefined): number {
+	const num = Number(value);
+	return value !== undefined && Number.isFinite(num) ? num : 0;
+}
+
+/**
+ * Read the markers, tempo markers and loop regions on an event's timeline,
+ * and its length from the last marker or instrument on it.
+ */
+function getTimeline(index: MetadataIndex, event: MetadataObject, objects: MetadataObject[]): FMODTimeline {
+	const timeline: FMODTimeline = { length: 0, markers: [], tempo: [], loop_regions: [] };
+	const timelineId = event.relationships["timeline"]?.[0];
+	if (!timelineId) return timeline;
+
+	for (const obj of objects) {
+		const position = toSeconds(getProperty(obj, "position"));
+		const length = toSeconds(getProperty(obj, "length"));
+
+		// Instruments placed on the timeline
+		if (obj.relationships["parameter"]?.[0] === timelineId && getProperty(obj, "length") !== undefined) {
+			timeline.length = Math.max(timeline.length, toSeconds(getProperty(obj, "start")) + length);
+			continue;
+		}
+
+		// Markers of a nested event in the same file belong to that event's timeline
+		const markerTimeline = obj.relationships["timeline"]?.[0];
+		if (markerTimeline && markerTimeline !== timelineId) continue;
+
+		switch (obj.className) {
+			case "NamedMarker":
+				timeline.markers.push({ type: "destination", name: getProperty(obj, "name") || "", position });
+				break;
+			case "TransitionMarker":
+			case "TransitionRegion": {
+				const destination = getRelated(index, obj, "destination")[0];
+				timeline.markers.push({
+					type: "transition",
+					name: getProperty(obj, "name") || "",
+					position,
+					...(obj.className === "TransitionRegion" ? { length } : {}),
+					destination: getProperty(destination, "name") || "",
+				});
+				break;
+			}
+			case "TempoMarker":
+				timeline.tempo.push({
+					position,
+					tempo: toSeconds(getProperty(obj, "tempo")) || 120,
+					time_signature: `${getProperty(obj, "timeSignatureNumerator") || 4}/${getProperty(obj, "timeSignatureDenominator") || 4}`,
+				});
+				break;
+			case "LoopRegion":
+				timeline.loop_regions.push({ start: position, end: position + length });
+				break;
+			default:
+				continue;
+		}
+		timeline.length = Math.max(timeline.length, position + length);
+	}
+
+	timeline.markers.sort((a, b) => a.position - b.position);
+	timeline.tempo.sort((a, b) => a.position - b.position);
+	timeline.loop_regions.sort((a, b) => a.start - b.start);
+	return timeline;
+}
+
+/**
+ * Find the events played by the event instruments stored in an event's file.
+ */
+function getReferencedEvents(index: MetadataIndex, event: MetadataObject, objects: MetadataObject[]): string[] {
+	const guids = new Set<string>();
+	for (const obj of objects) {
+		if (obj.className !== "EventSound") continue;
+		for (const referenced of getRelated(index, obj, "event")) {
+			if (referenced.id !== event.id) guids.add(referenced.id);
+		}
+	}
+	return [...guids].sort();
+}
+
+function buildEvent(index: MetadataIndex, event: MetadataObject, assetsDirectory: string): FMODEvent {
+	const objects = index.byFile.get(event.file) || [];
+	const name = getProperty(event, "name") || "";
+	const folderPath = getFolderPath(index, event);
+	const automatable = getRelated(index, event, "automatableProperties")[0];
+	const timeline = getTimeline(index, event, objects);
+	// The event's mixer input routes into its output bus
+	const mixerInput = getRelated(index, event, "mixerInput")[0];
+	const output = getRelated(index, mixerInput, "output")[0];
+
+	return {
+		name,
+		guid: event.id,
+		full_path: `event:/${folderPath ? folderPath + "/" : ""}${name}`,
+		folder_path: folderPath,
+		banks: getRelated(index, event, "banks")
+			.map((bank) => getProperty(bank, "name") || "")
+			.filter(Boolean)
+			.sort(),
+		loop_type: timeline.loop_regions.length > 0 ? "Loop" : "One-shot",
+		timeline,
+		space: objects.some((o) => /Spatiali[sz]er/.test(o.className)) ? "3D" : "2D",
+		max_voices: toValue(getProperty(automatable, "maxVoices"), ""),
+		notes: getProperty(event, "note") || "",
+		parameters: getParameters(index, event),
+		user_properties: getUserProperties(objects),
+		audio_files: getAudioFiles(index, objects, assetsDirectory),
+		output_bus: output ? getBusPath(index, output) : "",
+		referenced_events: getReferencedEvents(index, event, objects),
+	};
+}
+
+/**
+ * Read events, banks and the mixer straight from an FMOD Studio project's Metadata XML,
+ * without the companion script or FMOD Studio. Returns the same structure as a JSON export.
+ * Loop type and 2D/3D are detected from loop regions and spatializer effects.
+ */
+export async function readProjectMetadata(fsproPath: string): Promise<FMODExportData> {
+	const projectDirectory = path.dirname(fsproPath);
+	const metadataDirectory = path.join(projectDirectory, "Metadata");
+	const assetsDirectory = `${projectDirectory.replace(/\\/g, "/")}/Assets`;
+
+	let files: string[];
+	try {
+		files = await listXmlFiles(metadataDirectory);
+	} catch (error) {
+		throw new Error(`No Metadata folder next to ${fsproPath}: ${error}`);
+	}
+
+	const index: MetadataIndex = { byId: new Map(), byFile: new Map() };
+	let savedAt = 0;
+
+	for (const file of files) {
+		const [xml, stat] = await Promise.all([
+			fs.promises.readFile(file, "utf8"),
+			fs.promises.stat(file),
+		]);
+		savedAt = Math.max(savedAt, stat.mtimeMs);
+
+		const objects = parseMetadataFile(xml, file);
+		index.byFile.set(file, objects);
+		for (const obj of objects) {
+			if (obj.id) index.byId.set(obj.id, obj);
+		}
+	}
+
+	const events: FMODEvent[] = [];
+	for (const obj of index.byId.values()) {
+		if (obj.className === "Event") {
+			events.push(buildEvent(index, obj, assetsDirectory));
+		}
+	}
+	events.sort((a, b) => (a.full_path < b.full_path ? -1 : a.full_path > b.full_path ? 1 : 0));
+
+	// Same version detection as the export script: from an install-style project path
+	const versionMatch = fsproPath.match(/FMOD Studio[/\\](\d+\.\d+\.\d+)/i);
+
+	return {
+		schema_version: EXPORT_SCHEMA_VERSION,
+		// The newest metadata file tells when the project was last saved
+		exported_at: new Date(savedAt || Date.now()).toISOString(),
+		fmod_version: versionMatch?.[1],
+		project_name: path.basename(fsproPath, ".fspro"),
+		project_path: fsproPath,
+		event_count: events.length,
+		events,
+		...getStructure(index),
+	};
+}
@@ -0,0 +1,141 @@
+import { TFile, normalizePath } from "obsidian";
+import type { App } from "obsidian";
+import type { FMODEvent, FMODProjectConfig, ExistingNote, PlannedEvent } from "../types";
+import { sanitizeFilename } from "../utils/filename";
+import { getPathTemplates } from "../utils/template";
+import { generatePlannedEventMarkdown } from "../markdown/generator";
+import { parseFrontmatter, setFrontmatterProperties } from "../markdown/frontmatter";
+import { createEvent } from "../fmod/connector";
+import { ensureFolderExists, eventNotePath } from "./processor";
+
+/**
+ * Check whether a note is a planned event waiting for its FMOD event.
+ */
+export function isPlannedNote(note: ExistingNote): boolean {
+	return note.frontmatter["fmod_status"] === "planned" && !note.frontmatter["fmod_guid"];
+}
+
+/**
+ * Check whether a planned note's event was created in FMOD after the export was written.
+ * The export can't contain its GUID yet, so the note must not be treated as removed.
+ */
+export function isAwaitingExport(note: ExistingNote, exportedAt: string): boolean {
+	const createdAt = note.frontmatter["fmod_created_at"];
+	if (note.frontmatter["fmod_status"] !== "planned" || !createdAt) return false;
+	const exported = Date.parse(exportedAt);
+	const created = Date.parse(String(createdAt));
+	// Without both dates the order is unknown, so let the note be handled as usual
+	if (isNaN(exported) || isNaN(created)) return false;
+	return created >= exported;
+}
+
+/**
+ * Describe a planned note for reports.
+ */
+export function toPlannedEvent(note: ExistingNote): PlannedEvent {
+	const banks = note.frontmatter["fmod_banks"];
+	return {
+		name: note.file.basename,
+		path: note.path,
+		fullPath: String(note.frontmatter["fmod_full_path"] || ""),
+		banks: Array.isArray(banks) ? banks.map(String) : banks ? [String(banks)] : [],
+	};
+}
+
+/**
+ * Create a planned event note where the event's note will live once it exists.
+ * Throws if the path is not an event:/ path or a note is already there.
+ */
+export async function createPlannedEventNote(
+	app: App,
+	project: FMODProjectConfig,
+	fullPath: string,
+	bank: string,
+	space: string
+): Promise<TFile> {
+	const trimmedPath = fullPath.trim().replace(/\/+$/, "");
+	if (!trimmedPath.startsWith("event:/") || trimmedPath === "event:/") {
+		throw new Error("Event path must start with event:/ and include the event name");
+	}
+
+	const projectName = project.fmodProjectName || "";
+	const segments = trimmedPath.replace(/^event:\//, "").split("/");
+	const name = segments[segments.length - 1];
+
+	// Place the note using the project's event template, as a sync would
+	const plannedEvent: FMODEvent = {
+		name,
+		guid: "",
+		full_path: trimmedPath,
+		folder_path: segments.slice(0, -1).join("/"),
+		banks: bank ? [bank] : [],
+		loop_type: "",
+		timeline: { length: 0, markers: [], tempo: [], loop_regions: [] },
+		space,
+		max_voices: "",
+		notes: "",
+		parameters: [],
+		user_properties: [],
+		output_bus: "",
+		referenced_events: [],
+	};
+	const outputPath = normalizePath(project.outputFolder);
+	const notePath = eventNotePath(
+		plannedEvent,
+		sanitizeFilename(name),
+		outputPath,
+		getPathTemplates(project).event,
+		projectName
+	);
+
+	if (app.vault.getAbstractFileByPath(notePath)) {
+		throw new Error(`A note already exists at ${notePath}`);
+	}
+
+	await ensureFolderExists(app, notePath.substring(0, notePath.lastIndexOf("/")));
+	return app.vault.create(notePath, generatePlannedEventMarkdown(trimmedPath, bank, space, projectName));
+}
+
+/**
+ * Create the event for a planned note in the running FMOD Studio session,
+ * then write the new GUID back to the note so the next sync links them.
+ * The note stays planned, stamped with fmod_created_at, until an export contains the event.
+ * Throws if the note isn't a planned event or FMOD Studio reports an error.
+ */
+export async function createEventFromPlannedNote(app: App, file: TFile): Promise<string> {
+	const content = await app.vault.read(file);
+	const props = parseFrontmatter(content).properties;
+	if (props["fmod_guid"]) {
+		throw new Error(`${file.basename} is already linked to an FMOD event`);
+	}
+
+	// The intended event:/ path gives the folder and name; fall back to the note itself
+	const fullPath = typeof props["fmod_full_path"] === "string" ? props["fmod_full_path"] : "";
+	const segments = fullPath.replace(/^event:\//, "").split("/").filter(Boolean);
+	const name = segments.length > 0 ? segments[segments.length - 1] : file.basename;
+	const folderPath = segments.length > 0
+		? segments.slice(0, -1).join("/")
+		: String(props["fmod_folder_path"] || "");
+	const banks = props["fmod_banks"];
+	const space = String(props["fmod_space"] || "2D");
+
+	const result = await createEvent(
+		folderPath,
+		name,
+		Array.isArray(banks) ? banks.map(String) : banks ? [String(banks)] : [],
+		space
+	);
+	if (!result.guid) {
+		throw new Error(result.error || "FMOD Studio did not return a GUID");
+	}
+
+	await app.vault.modify(
+		file,
+		setFrontmatterProperties(content, {
+			fmod_guid: result.guid,
+			fmod_created_at: new Date().toISOString(),
+			fmod_full_path: `event:/${folderPath ? folderPath + "/" : ""}${name}`,
+		})
+	);
+	return result.guid;
+}
@@ -1,9 +1,29 @@
 import { TFile, TFolder, normalizePath } from "obsidian";
 import type { App } from "obsidian";
-import type { FMODEvent, FMODAudioFileNote, SyncStats, SkipReason } from "../types";
+import type {
+	FMODEvent,
+	FMODAudioFileNote,
+	FMODStructureKind,
+	FMODStructureItem,
+	FMODStructureNote,
+	EventNoteLinks,
+	AudioMetadataCache,
+	SyncStats,
+	SyncChange,
+	SyncPlan,
+	OrphanAction,
+	ConflictResolution,
+	ExistingNote,
+	CollisionStrategy,
+} from "../types";
+import { NOTE_FORMAT_VERSION, STRUCTURE_FOLDERS } from "../constants";
 import { sanitizeFilename } from "../utils/filename";
-import { parseFrontmatter } from "../markdown/frontmatter";
-import { generateMarkdown, generateAudioFileMarkdown } from "../markdown/generator";
+import { renderPathTemplate, shortGuid } from "../utils/template";
+import { hashString } from "../utils/hash";
+import { getAudioMetadata } from "../utils/audio-metadata";
+import { parseFrontmatter, setFrontmatterProperties, isSameIgnoringSyncTime } from "../markdown/frontmatter";
+import { generateMarkdown, generateAudioFileMarkdown, generateStructureMarkdown } from "../markdown/generator";
+import { managedSectionsHash, resolveManagedConflict } from "../markdown/managed";
 
 /**
  * Ensure a folder exists in the vault, creating it and parent folders if needed.
@@ -28,10 +48,12 @@ export async function ensureFolderExists(app: App, folderPath: string): Promise<
 }
 
 /**
- * Scan existing notes in a folder tree, returning a map of path -> content.
+ * Scan existing notes in a folder tree, returning a map of path -> note.
+ * Frontmatter comes from the metadata cache; files are only read when
+ * the cache has no entry for them yet.
  */
-export async function scanExistingNotes(app: App, basePath: string): Promise<Map<string, string>> {
-	const notes = new Map<string, string>();
+export async function scanExistingNotes(app: App, basePath: string): Promise<Map<string, ExistingNote>> {
+	const notes = new Map<string, ExistingNote>();
 	const folder = app.vault.getAbstractFileByPath(basePath);
 
 	if (!(folder instanceof TFolder)) {
@@ -41,8 +63,23 @@ export async function scanExistingNotes(app: App, basePath: string): Promise<Map
 	const scanFolder = async (f: TFolder): Promise<void> => {
 		for (const child of f.children) {
 			if (child instanceof TFile && child.extension === "md") {
-				const content = await app.vault.read(child);
-				notes.set(child.path, content);
+				const cache = app.metadataCache.getFileCache(child);
+				if (cache) {
+					notes.set(child.path, {
+						file: child,
+						path: child.path,
+						frontmatter: cache.frontmatter ?? {},
+					});
+				} else {
+					// Not indexed yet (e.g. just created) - fall back to reading the file
+					const content = await app.vault.cachedRead(child);
+					notes.set(child.path, {
+						file: child,
+						path: child.path,
+						frontmatter: parseFrontmatter(content).properties,
+						content,
+					});
+				}
 			} else if (child instanceof TFolder) {
 				await scanFolder(child);
 			}
@@ -54,194 +91,656 @@ export async function scanExistingNotes(app: App, basePath: string): Promise<Map
 }
 
 /**
- * Process a single FMOD event - create, update, or move the corresponding note.
+ * Get a note's content, reading the file only if it hasn't been read yet.
  */
-export async function processEvent(
-	app: App,
+export async function readNote(app: App, note: ExistingNote): Promise<string> {
+	if (note.content === undefined) {
+		note.content = await app.vault.cachedRead(note.file);
+	}
+	return note.content;
+}
+
+/**
+ * Index audio file notes by the absolute audio path stored in their fmod_path property.
+ */
+export function indexAudioNotesByPath(
+	existingNotes: Map<string, ExistingNote>
+): Map<string, ExistingNote> {
+	const notesByPath = new Map<string, ExistingNote>();
+	for (const note of existingNotes.values()) {
+		const fmodPath = note.frontmatter["fmod_path"];
+		if (typeof fmodPath === "string" && fmodPath) {
+			// Extract the actual path from ext:/// URL
+			const actualPath = fmodPath.replace(/^ext:\/\//, "");
+			notesByPath.set(actualPath, note);
+		}
+	}
+	return notesByPath;
+}
+
+/**
+ * Fingerprint the data a note is generated from. A note whose stored
+ * fmod_source_hash matches can be skipped without reading it.
+ * The letter prefix keeps YAML from reading the hash as a number.
+ */
+function sourceHash(data: unknown, projectName: string): string {
+	return `v${NOTE_FORMAT_VERSION}-${hashString(JSON.stringify([projectName, data]))}`;
+}
+
+/**
+ * Check whether a note was built from the given source data and is still live.
+ * Notes marked removed are regenerated when their event or file comes back.
+ */
+function matchesSourceHash(note: ExistingNote, hash: string): boolean {
+	return note.frontmatter["fmod_source_hash"] === hash && note.frontmatter["fmod_status"] !== "removed";
+}
+
+/**
+ * Append a note's previous vault path to its fmod_previous_paths rename history.
+ */
+function withPreviousPath(markdown: string, oldPath: string): string {
+	const existing = parseFrontmatter(markdown).properties["fmod_previous_paths"];
+	const history = Array.isArray(existing) ? existing : existing ? [String(existing)] : [];
+	return setFrontmatterProperties(markdown, {
+		fmod_previous_paths: [...history, oldPath],
+	});
+}
+
+/**
+ * Find event names that appear more than once in the export.
+ * Names are compared after sanitizing, since that is what the filename uses.
+ */
+export function findDuplicateNames(events: FMODEvent[]): Set<string> {
+	const seen = new Set<string>();
+	const duplicates = new Set<string>();
+	for (const event of events) {
+		const name = sanitizeFilename(event.name);
+		if (seen.has(name)) {
+			duplicates.add(name);
+		}
+		seen.add(name);
+	}
+	return duplicates;
+}
+
+/**
+ * Work out the note filename (without extension) for an event.
+ * Events whose name is shared with another event in the export are renamed
+ * according to the collision strategy. An event that already has a note keeps
+ * its filename while that is still the plain or renamed form of the event's name,
+ * so notes don't flip between the two as other events with the same name come and go.
+ */
+export function resolveEventNoteName(
 	event: FMODEvent,
-	outputPath: string,
-	notesByGuid: Map<string, { path: string; content: string }>,
-	notesByName: Map<string, { path: string; content: string }>,
-	exportedAt: string,
-	projectName: string,
-	stats: SyncStats,
-	skipped: SkipReason[]
-): Promise<void> {
+	duplicateNames: Set<string>,
+	strategy: CollisionStrategy,
+	existingName?: string
+): string {
 	const sanitizedName = sanitizeFilename(event.name);
+	const renamed = collisionNoteName(event, strategy);
 
-	// Calculate target path (always mirrors FMOD folder structure)
-	let targetPath: string;
-	if (event.folder_path) {
-		const sanitizedFolder = event.folder_path
-			.split("/")
-			.map((s) => sanitizeFilename(s))
-			.join("/");
-		targetPath = normalizePath(`${outputPath}/${sanitizedFolder}/${sanitizedName}.md`);
-	} else {
-		targetPath = normalizePath(`${outputPath}/${sanitizedName}.md`);
+	if (existingName && (existingName === sanitizedName || existingName === renamed)) {
+		return existingName;
 	}
+	return duplicateNames.has(sanitizedName) && renamed ? renamed : sanitizedName;
+}
+
+/**
+ * The filename the collision strategy gives an event whose name is shared,
+ * or null when the strategy keeps the plain name.
+ */
+function collisionNoteName(event: FMODEvent, strategy: CollisionStrategy): string | null {
+	switch (strategy) {
+		case "folder-suffix": {
+			const folder = event.folder_path.substring(event.folder_path.lastIndexOf("/") + 1);
+			return folder ? sanitizeFilename(`${event.name} (${folder})`) : null;
+		}
+		case "guid-suffix":
+			return sanitizeFilename(`${event.name} (${shortGuid(event.guid)})`);
+		case "full-path":
+			return sanitizeFilename(event.full_path.replace(/^event:\//, ""));
+		default:
+			return null;
+	}
+}
+
+/**
+ * Work out the vault path of an event note from the project's path template.
+ */
+export function eventNotePath(
+	event: FMODEvent,
+	noteName: string,
+	outputPath: string,
+	template: string,
+	projectName: string
+): string {
+	return renderPathTemplate(outputPath, template, {
+		folder_path: event.folder_path,
+		bank: event.banks && event.banks.length > 0 ? event.banks[0] : "",
+		name: noteName,
+		guid_short: shortGuid(event.guid),
+		project: projectName,
+	});
+}
+
+/**
+ * Work out the vault path of a bank, bus, VCA or snapshot note, mirroring its FMOD path
+ * under the kind's folder, e.g. "bus:/SFX/Footsteps" -> "Buses/SFX/Footsteps.md".
+ */
+export function structureNotePath(kind: FMODStructureKind, item: FMODStructureItem, outputPath: string): string {
+	const segments = item.path.replace(/^\w+:\//, "").split("/").filter(Boolean);
+	segments.pop();
+	return renderPathTemplate(outputPath, `${STRUCTURE_FOLDERS[kind]}/{folder_path}/{name}`, {
+		folder_path: segments.join("/"),
+		name: item.name,
+	});
+}
 
+/**
+ * Plan a single FMOD event - decide whether its note is created, updated, moved, or skipped.
+ * targetPath is where the note belongs under the current path template; an existing
+ * note found by GUID elsewhere is moved there. Nothing is written to the vault; see applyChange.
+ */
+export async function planEvent(
+	app: App,
+	event: FMODEvent,
+	targetPath: string,
+	notesByGuid: Map<string, ExistingNote>,
+	notesByName: Map<string, ExistingNote>,
+	plannedByPath: Map<string, ExistingNote>,
+	exportedAt: string,
+	projectName: string,
+	noteName: string,
+	sameFolderOnly: boolean,
+	links: EventNoteLinks
+): Promise<SyncChange> {
 	// Check for existing note by GUID
 	const existingByGuid = notesByGuid.get(event.guid);
-	// Check for existing note by filename
-	const existingByName = notesByName.get(sanitizedName);
+	// Check for a planned note with this event's intended path
+	const plannedByPathMatch = plannedByPath.get(event.full_path);
+	// Check for existing note by filename (or by full path when names
+	// should only match inside the same mirrored folder)
+	const existingByName = notesByName.get(sameFolderOnly ? targetPath : noteName);
 
-	let existingContent: string | null = null;
-	let existingPath: string | null = null;
-	let needsMove = false;
+	let existingNote: ExistingNote | null = null;
 
 	if (existingByGuid) {
 		// GUID match - this is a known event
-		existingContent = existingByGuid.content;
-		existingPath = existingByGuid.path;
-		needsMove = existingPath !== targetPath;
+		existingNote = existingByGuid;
+	} else if (plannedByPathMatch) {
+		// Planned note for this event:/ path - adopt it
+		existingNote = plannedByPathMatch;
 	} else if (existingByName) {
 		// Name match - might be a planned event or coincidence
-		const frontmatter = parseFrontmatter(existingByName.content);
-		const existingGuid = frontmatter.properties["fmod_guid"];
+		const existingGuid = existingByName.frontmatter["fmod_guid"];
 
-		if (!existingGuid) {
+		const plannedPath = existingByName.frontmatter["fmod_full_path"];
+
+		if (!existingGuid && plannedPath && plannedPath !== event.full_path) {
+			// Planned note for a different event:/ path, leave it for that event
+			return {
+				type: "skip",
+				noteKind: "event",
+				name: event.name,
+				path: existingByName.path,
+				reason: `Name collision: planned note is for ${plannedPath}`,
+			};
+		} else if (!existingGuid) {
 			// No GUID = planned event, link it
-			existingContent = existingByName.content;
-			existingPath = existingByName.path;
-			needsMove = existingPath !== targetPath;
+			existingNote = existingByName;
 		} else if (existingGuid !== event.guid) {
 			// Different GUID = different event with same name, skip
-			stats.skipped++;
-			skipped.push({
-				event: event.name,
+			return {
+				type: "skip",
+				noteKind: "event",
+				name: event.name,
+				path: existingByName.path,
 				reason: `Name collision: existing note has different GUID (${existingGuid})`,
-			});
-			return;
+			};
 		}
 	}
 
-	// Ensure target folder exists
-	const targetFolder = targetPath.substring(0, targetPath.lastIndexOf("/"));
-	if (targetFolder) {
-		await ensureFolderExists(app, targetFolder);
+	// Planned notes may already have the GUID of an event created from them
+	const adopted = existingNote !== null &&
+		(!existingNote.frontmatter["fmod_guid"] || existingNote.frontmatter["fmod_status"] === "planned");
+	const existingPath = existingNote ? existingNote.path : null;
+	const needsMove = existingPath !== null && existingPath !== targetPath;
+	// Links are part of the source, so notes follow when a bank or bus note moves
+	const hash = sourceHash([event, links], projectName);
+
+	// Same source data as last sync - nothing to regenerate
+	if (existingNote && !needsMove && matchesSourceHash(existingNote, hash)) {
+		return { type: "unchanged", noteKind: "event", name: event.name, path: targetPath };
 	}
 
+	const existingContent = existingNote ? await readNote(app, existingNote) : null;
+
 	// Generate markdown content
-	const markdown = generateMarkdown(
+	let markdown = generateMarkdown(
 		event,
 		existingContent,
 		exportedAt,
-		projectName
+		projectName,
+		hash,
+		links
 	);
 
-	// Write or update file
-	if (needsMove && existingPath) {
-		// Delete old file
-		const oldFile = app.vault.getAbstractFileByPath(existingPath);
-		if (oldFile instanceof TFile) {
-			await app.vault.delete(oldFile);
+	// Compare managed sections with the hash recorded at the last sync.
+	// Edits made only in Obsidian are kept; edits on both sides are a conflict.
+	const baseHash = existingNote?.frontmatter["fmod_managed_hash"];
+	if (existingContent !== null && typeof baseHash === "string" && baseHash) {
+		const vaultHash = managedSectionsHash(existingContent);
+		const fmodHash = managedSectionsHash(markdown);
+		const vaultChanged = vaultHash !== baseHash;
+
+		if (vaultChanged && fmodHash !== baseHash && vaultHash !== fmodHash) {
+			return {
+				type: "conflict",
+				noteKind: "event",
+				name: event.name,
+				path: targetPath,
+				oldPath: needsMove && existingPath ? existingPath : undefined,
+				content: needsMove && existingPath ? withPreviousPath(markdown, existingPath) : markdown,
+				oldContent: existingContent,
+				reason: "Managed sections were edited in Obsidian and changed in FMOD",
+			};
 		}
-		// Create at new location
-		await app.vault.create(targetPath, markdown);
-		stats.moved++;
-	} else {
-		const existingFile = app.vault.getAbstractFileByPath(targetPath);
-		if (existingFile instanceof TFile) {
-			await app.vault.modify(existingFile, markdown);
-			stats.updated++;
-		} else {
-			await app.vault.create(targetPath, markdown);
-			stats.created++;
+		if (vaultChanged) {
+			markdown = resolveManagedConflict(markdown, existingContent, "vault");
 		}
 	}
+
+	if (needsMove && existingPath) {
+		return {
+			type: "move",
+			noteKind: "event",
+			name: event.name,
+			path: targetPath,
+			oldPath: existingPath,
+			adopted,
+			content: withPreviousPath(markdown, existingPath),
+			oldContent: existingContent,
+		};
+	}
+
+	const existingFile = app.vault.getAbstractFileByPath(targetPath);
+	if (existingFile instanceof TFile) {
+		return {
+			type: existingContent !== null && isSameIgnoringSyncTime(existingContent, markdown)
+				? "unchanged"
+				: "update",
+			noteKind: "event",
+			name: event.name,
+			path: targetPath,
+			content: markdown,
+			oldContent: existingContent,
+			adopted,
+		};
+	}
+
+	return {
+		type: "create",
+		noteKind: "event",
+		name: event.name,
+		path: targetPath,
+		content: markdown,
+		oldContent: null,
+	};
 }
 
 /**
- * Process audio file notes - create/update notes for all audio files.
+ * Plan audio file notes - create/update/move notes for all audio files.
+ * Notes are matched by audio path, so a changed template moves them.
+ * Technical metadata is read from the audio files, cached by modification time.
+ * Planned changes are appended to the plan; failures are recorded on the plan.
  */
-export async function processAudioFiles(
+export async function planAudioFiles(
 	app: App,
 	audioFileNotes: FMODAudioFileNote[],
 	outputPath: string,
-	existingNotes: Map<string, string>,
+	template: string,
+	existingNotes: Map<string, ExistingNote>,
 	exportedAt: string,
 	projectName: string,
-	stats: SyncStats
+	plan: SyncPlan,
+	metadataCache: AudioMetadataCache
 ): Promise<void> {
-	const audioFilesFolder = normalizePath(`${outputPath}/Audio Files`);
-	await ensureFolderExists(app, audioFilesFolder);
-
 	// Build index of existing audio file notes by path (fmod_path property)
-	const notesByPath = new Map<string, { path: string; content: string }>();
-	for (const [notePath, content] of existingNotes) {
-		const frontmatter = parseFrontmatter(content);
-		const fmodPath = frontmatter.properties["fmod_path"] as string | undefined;
-		if (fmodPath) {
-			// Extract the actual path from ext:/// URL
-			const actualPath = fmodPath.replace(/^ext:\/\//, "");
-			notesByPath.set(actualPath, { path: notePath, content });
-		}
-	}
+	const notesByPath = indexAudioNotesByPath(existingNotes);
 
 	for (const audioFile of audioFileNotes) {
 		try {
-			// Calculate target path based on asset_path (mirroring FMOD folder structure)
-			let targetPath: string;
-			if (audioFile.assetPath && audioFile.assetPath.includes("/")) {
-				// Get folder from asset path
-				const assetFolder = audioFile.assetPath.substring(0, audioFile.assetPath.lastIndexOf("/"));
-				const sanitizedFolder = assetFolder
-					.split("/")
-					.map((s) => sanitizeFilename(s))
-					.join("/");
-				targetPath = normalizePath(`${audioFilesFolder}/${sanitizedFolder}/${sanitizeFilename(audioFile.filename)}.md`);
-			} else {
-				targetPath = normalizePath(`${audioFilesFolder}/${sanitizeFilename(audioFile.filename)}.md`);
-			}
+			// Calculate target path from the template ({folder_path} is the asset folder)
+			const assetFolder = audioFile.assetPath.includes("/")
+				? audioFile.assetPath.substring(0, audioFile.assetPath.lastIndexOf("/"))
+				: "";
+			const targetPath = renderPathTemplate(outputPath, template, {
+				folder_path: assetFolder,
+				name: audioFile.filename,
+				project: projectName,
+			});
+
+			// Read the file's headers, or reuse them if the file hasn't changed
+			audioFile.metadata = await getAudioMetadata(audioFile.absolutePath, metadataCache);
 
 			// Check for existing note by path
 			const existingByPath = notesByPath.get(audioFile.absolutePath);
-			let existingContent: string | null = null;
-			let existingPath: string | null = null;
-			let needsMove = false;
-
-			if (existingByPath) {
-				existingContent = existingByPath.content;
-				existingPath = existingByPath.path;
-				needsMove = existingPath !== targetPath;
-			}
+			const hash = sourceHash(audioFile, projectName);
 
-			// Ensure target folder exists
-			const targetFolder = targetPath.substring(0, targetPath.lastIndexOf("/"));
-			if (targetFolder) {
-				await ensureFolderExists(app, targetFolder);
+			// Same source data as last sync - nothing to regenerate
+			if (
+				existingByPath &&
+				existingByPath.path === targetPath &&
+				matchesSourceHash(existingByPath, hash)
+			) {
+				plan.changes.push({ type: "unchanged", noteKind: "audio", name: audioFile.filename, path: targetPath });
+				continue;
 			}
 
+			const existingContent = existingByPath ? await readNote(app, existingByPath) : null;
+
 			// Generate markdown content
 			const markdown = generateAudioFileMarkdown(
 				audioFile,
 				existingContent,
 				exportedAt,
-				projectName
+				projectName,
+				hash
 			);
 
-			// Write or update file
-			if (needsMove && existingPath) {
-				const oldFile = app.vault.getAbstractFileByPath(existingPath);
-				if (oldFile instanceof TFile) {
-					await app.vault.delete(oldFile);
-				}
-				await app.vault.create(targetPath, markdown);
-				stats.moved++;
-			} else {
-				const existingFile = app.vault.getAbstractFileByPath(targetPath);
-				if (existingFile instanceof TFile) {
-					await app.vault.modify(existingFile, markdown);
-					stats.updated++;
+			const change: SyncChange = {
+				type: "create",
+				noteKind: "audio",
+				name: audioFile.filename,
+				path: targetPath,
+				content: markdown,
+				oldContent: existingContent,
+			};
+
+			if (existingByPath && existingByPath.path !== targetPath) {
+				change.type = "move";
+				change.oldPath = existingByPath.path;
+				change.content = withPreviousPath(markdown, existingByPath.path);
+			} else if (app.vault.getAbstractFileByPath(targetPath) instanceof TFile) {
+				if (!existingByPath) {
+					// Another note already uses this path, don't overwrite it
+					change.type = "skip";
+					change.reason = `Path collision: ${targetPath} is not the note for ${audioFile.assetPath || audioFile.absolutePath}`;
+					delete change.content;
 				} else {
-					await app.vault.create(targetPath, markdown);
-					stats.created++;
+					change.type = existingContent !== null && isSameIgnoringSyncTime(existingContent, markdown)
+						? "unchanged"
+						: "update";
 				}
 			}
+
+			plan.changes.push(change);
 		} catch (error) {
 			console.error(`FMOD Sync: Error processing audio file ${audioFile.filename}:`, error);
-			stats.errors++;
+			plan.failures.push({ event: audioFile.filename, reason: String(error) });
+		}
+	}
+}
+
+/**
+ * Plan bank, bus, VCA and snapshot notes - create/update/move a note for each.
+ * Notes are matched by GUID, so renamed or moved items move their note.
+ * Planned changes are appended to the plan; failures are recorded on the plan.
+ */
+export async function planStructureNotes(
+	app: App,
+	structureNotes: FMODStructureNote[],
+	outputPath: string,
+	notesByGuid: Map<string, ExistingNote>,
+	exportedAt: string,
+	projectName: string,
+	plan: SyncPlan
+): Promise<void> {
+	for (const note of structureNotes) {
+		const { kind, item } = note;
+		try {
+			const targetPath = structureNotePath(kind, item, outputPath);
+			const existing = notesByGuid.get(item.guid);
+			const hash = sourceHash(note, projectName);
+
+			// Same source data as last sync - nothing to regenerate
+			if (existing && existing.path === targetPath && matchesSourceHash(existing, hash)) {
+				plan.changes.push({ type: "unchanged", noteKind: kind, name: item.name, path: targetPath });
+				continue;
+			}
+
+			const existingContent = existing ? await readNote(app, existing) : null;
+			const markdown = generateStructureMarkdown(note, existingContent, exportedAt, projectName, hash);
+
+			const change: SyncChange = {
+				type: "create",
+				noteKind: kind,
+				name: item.name,
+				path: targetPath,
+				content: markdown,
+				oldContent: existingContent,
+			};
+
+			if (existing && existing.path !== targetPath) {
+				change.type = "move";
+				change.oldPath = existing.path;
+				change.content = withPreviousPath(markdown, existing.path);
+			} else if (app.vault.getAbstractFileByPath(targetPath) instanceof TFile) {
+				if (!existing) {
+					// Another note already uses this path, don't overwrite it
+					change.type = "skip";
+					change.reason = `Path collision: ${targetPath} is not the note for ${item.path}`;
+					delete change.content;
+				} else {
+					change.type = existingContent !== null && isSameIgnoringSyncTime(existingContent, markdown)
+						? "unchanged"
+						: "update";
+				}
+			}
+
+			plan.changes.push(change);
+		} catch (error) {
+			console.error(`FMOD Sync: Error processing ${kind} ${item.path}:`, error);
+			plan.failures.push({ event: item.path, reason: String(error) });
 		}
 	}
 }
+
+/**
+ * Plan a note whose event or audio file is no longer in the export.
+ * Marks it as removed, then archives or deletes it depending on the project setting.
+ * Returns null for notes already marked removed (and already archived, if archiving).
+ */
+export async function planOrphanNote(
+	app: App,
+	note: ExistingNote,
+	outputPath: string,
+	archivePath: string,
+	action: OrphanAction,
+	removedAt: string
+): Promise<SyncChange | null> {
+	const notePath = note.path;
+	const name = note.file.basename;
+	const structureKind = note.frontmatter["fmod_type"];
+	const noteKind: SyncChange["noteKind"] = note.frontmatter["fmod_path"]
+		? "audio"
+		: typeof structureKind === "string" && structureKind in STRUCTURE_FOLDERS
+			? (structureKind as FMODStructureKind)
+			: "event";
+
+	if (action === "delete") {
+		return { type: "remove", noteKind, name, path: notePath, trash: true };
+	}
+
+	const needsMark = note.frontmatter["fmod_status"] !== "removed";
+
+	let targetPath = notePath;
+	if (action === "archive" && !notePath.startsWith(`${archivePath}/`)) {
+		// Keep the note's location relative to the output folder inside the archive
+		const relativePath = notePath.startsWith(`${outputPath}/`)
+			? notePath.substring(outputPath.length + 1)
+			: note.file.name;
+		targetPath = normalizePath(`${archivePath}/${relativePath}`);
+	}
+
+	if (!needsMark && targetPath === notePath) {
+		return null;
+	}
+
+	const content = await readNote(app, note);
+	const updated = needsMark
+		? setFrontmatterProperties(content, {
+			fmod_status: "removed",
+			fmod_removed_at: removedAt,
+			// A restored event must regenerate the note, even with the same data
+			fmod_source_hash: undefined,
+		})
+		: content;
+
+	return {
+		type: "remove",
+		noteKind,
+		name,
+		path: targetPath,
+		oldPath: targetPath !== notePath ? notePath : undefined,
+		content: updated,
+		oldContent: content,
+	};
+}
+
+/**
+ * Write a planned change to the vault and count it in the stats.
+ * Returns the reason when the note changed since planning and was skipped instead.
+ */
+export async function applyChange(app: App, change: SyncChange, stats: SyncStats): Promise<string | null> {
+	if (change.type === "skip") {
+		stats.skipped++;
+		return null;
+	}
+
+	// Leave the file untouched so its modified time and sync state don't churn
+	if (change.type === "unchanged") {
+		stats.unchanged++;
+		return null;
+	}
+
+	// Conflicts are left as they are until the user resolves them
+	if (change.type === "conflict") {
+		stats.conflicts++;
+		return null;
+	}
+
+	// The planned content was built from the note as it was then; writing it
+	// over later edits would lose them, so leave the note for the next sync
+	if (await changedSincePlanning(app, change)) {
+		stats.skipped++;
+		return "Note was changed after the sync was planned. Sync again to update it.";
+	}
+
+	// Ensure target folder exists
+	const targetFolder = change.path.substring(0, change.path.lastIndexOf("/"));
+	if (targetFolder && !change.trash) {
+		await ensureFolderExists(app, targetFolder);
+	}
+
+	const markdown = change.content ?? "";
+
+	switch (change.type) {
+		case "create": {
+			const existingFile = app.vault.getAbstractFileByPath(change.path);
+			if (existingFile instanceof TFile) {
+				await app.vault.modify(existingFile, markdown);
+			} else {
+				await app.vault.create(change.path, markdown);
+			}
+			stats.created++;
+			break;
+		}
+		case "update": {
+			const existingFile = app.vault.getAbstractFileByPath(change.path);
+			if (existingFile instanceof TFile) {
+				await app.vault.modify(existingFile, markdown);
+			} else {
+				await app.vault.create(change.path, markdown);
+			}
+			stats.updated++;
+			break;
+		}
+		case "move": {
+			const oldFile = change.oldPath ? app.vault.getAbstractFileByPath(change.oldPath) : null;
+			if (oldFile instanceof TFile) {
+				// Rename through the file manager so links across the vault follow the note
+				await app.fileManager.renameFile(oldFile, change.path);
+				await app.vault.modify(oldFile, markdown);
+			} else {
+				await app.vault.create(change.path, markdown);
+			}
+			stats.moved++;
+			break;
+		}
+		case "remove": {
+			const file = app.vault.getAbstractFileByPath(change.oldPath || change.path);
+			if (!(file instanceof TFile)) return null;
+
+			if (change.trash) {
+				await app.fileManager.trashFile(file);
+			} else {
+				if (markdown !== change.oldContent) {
+					await app.vault.modify(file, markdown);
+				}
+				if (change.path !== file.path && !app.vault.getAbstractFileByPath(change.path)) {
+					await app.fileManager.renameFile(file, change.path);
+				}
+			}
+			stats.removed++;
+			break;
+		}
+	}
+	return null;
+}
+
+/**
+ * Check whether a note changed since its change was planned, e.g. it was
+ * edited while the sync preview was open.
+ */
+async function changedSincePlanning(app: App, change: SyncChange): Promise<boolean> {
+	const file = app.vault.getAbstractFileByPath(change.oldPath || change.path);
+	if (typeof change.oldContent === "string") {
+		return !(file instanceof TFile) || (await app.vault.read(file)) !== change.oldContent;
+	}
+	// A note planned as new must not have been created in the meantime
+	return change.type === "create" && file instanceof TFile;
+}
+
+/**
+ * Write a conflicting note using the side (or sides) the user chose to keep,
+ * moving it first if the sync would have moved it.
+ * Returns the reason when the note changed since the conflict was found and was left as it is.
+ */
+export async function resolveConflict(
+	app: App,
+	change: SyncChange,
+	resolution: ConflictResolution
+): Promise<string | null> {
+	// The resolution was built from the note as it was when the conflict was found
+	if (await changedSincePlanning(app, change)) {
+		return "Note was changed after the conflict was found. Sync again to resolve it.";
+	}
+
+	const markdown = resolveManagedConflict(change.content ?? "", change.oldContent ?? "", resolution);
+
+	let file = app.vault.getAbstractFileByPath(change.oldPath || change.path);
+	if (!(file instanceof TFile)) {
+		throw new Error(`Note not found: ${change.oldPath || change.path}`);
+	}
+
+	if (change.oldPath && change.oldPath !== change.path) {
+		await ensureFolderExists(app, change.path.substring(0, change.path.lastIndexOf("/")));
+		await app.fileManager.renameFile(file, change.path);
+		file = app.vault.getAbstractFileByPath(change.path);
+	}
+	if (file instanceof TFile) {
+		await app.vault.modify(file, markdown);
+	}
+	return null;
+}
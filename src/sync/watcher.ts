@@ -0,0 +1,147 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Notice } from "obsidian";
+import type { FMODProjectConfig, NewerExportInfo } from "../types";
+import { AUTO_SYNC_DEBOUNCE, AUTO_SYNC_MAX_RETRIES, AUTO_SYNC_STABLE_TIMEOUT } from "../constants";
+import { findNewerExport } from "./json-reader";
+
+/**
+ * Wait until a file's size stops changing, so we don't read an export
+ * that FMOD Studio is still writing.
+ */
+async function waitForStableFile(filePath: string, timeoutMs: number, pollMs = 500): Promise<boolean> {
+	const start = Date.now();
+	let lastSize = -1;
+	while (Date.now() - start < timeoutMs) {
+		let size: number;
+		try {
+			size = (await fs.promises.stat(filePath)).size;
+		} catch {
+			return false;
+		}
+		if (size > 0 && size === lastSize) return true;
+		lastSize = size;
+		await new Promise((r) => setTimeout(r, pollMs));
+	}
+	return false;
+}
+
+/**
+ * Watches the export directories of auto-sync projects and reports
+ * newer timestamped exports once they have been fully written.
+ */
+export class ExportWatcher {
+	private watchers: Map<string, { directory: string; watcher: fs.FSWatcher }> = new Map();
+	private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+	private onNewExport: (project: FMODProjectConfig, newer: NewerExportInfo) => Promise<void>;
+
+	constructor(onNewExport: (project: FMODProjectConfig, newer: NewerExportInfo) => Promise<void>) {
+		this.onNewExport = onNewExport;
+	}
+
+	/**
+	 * Start, restart or stop watchers to match the current project settings.
+	 */
+	update(projects: FMODProjectConfig[]): void {
+		const wanted = new Map<string, FMODProjectConfig>();
+		for (const project of projects) {
+			if (project.autoSync && project.jsonFilePath && path.isAbsolute(project.jsonFilePath)) {
+				wanted.set(project.id, project);
+			}
+		}
+
+		// Stop watchers for removed projects or projects that turned auto-sync off
+		for (const projectId of Array.from(this.watchers.keys())) {
+			const project = wanted.get(projectId);
+			if (!project || path.dirname(project.jsonFilePath) !== this.watchers.get(projectId)?.directory) {
+				this.stop(projectId);
+			}
+		}
+
+		for (const project of wanted.values()) {
+			if (!this.watchers.has(project.id)) {
+				this.start(project);
+			}
+		}
+	}
+
+	/**
+	 * Stop all watchers and pending checks.
+	 */
+	stopAll(): void {
+		for (const projectId of Array.from(this.watchers.keys())) {
+			this.stop(projectId);
+		}
+	}
+
+	private start(project: FMODProjectConfig): void {
+		const directory = path.dirname(project.jsonFilePath);
+		try {
+			const watcher = fs.watch(directory, (_eventType, filename) => {
+				if (filename && !filename.toString().endsWith(".json")) return;
+				this.schedule(project);
+			});
+			watcher.on("error", (error) => {
+				console.error(`FMOD Sync: Export watcher failed for ${directory}:`, error);
+				this.stop(project.id);
+			});
+			this.watchers.set(project.id, { directory, watcher });
+		} catch (error) {
+			console.error(`FMOD Sync: Could not watch ${directory}:`, error);
+		}
+	}
+
+	private stop(projectId: string): void {
+		this.watchers.get(projectId)?.watcher.close();
+		this.watchers.delete(projectId);
+
+		const timer = this.timers.get(projectId);
+		if (timer) {
+			clearTimeout(timer);
+			this.timers.delete(projectId);
+		}
+	}
+
+	/**
+	 * Debounce change events: exports trigger several events while being written.
+	 * Exports that are still growing (or empty) after the stability timeout are
+	 * checked again later, up to AUTO_SYNC_MAX_RETRIES times.
+	 */
+	private schedule(project: FMODProjectConfig, retry = 0): void {
+		const existing = this.timers.get(project.id);
+		if (existing) {
+			clearTimeout(existing);
+		}
+
+		this.timers.set(
+			project.id,
+			setTimeout(async () => {
+				this.timers.delete(project.id);
+
+				try {
+					const newer = await findNewerExport(project.jsonFilePath);
+					if (!newer) return;
+
+					if (!(await waitForStableFile(newer.filePath, AUTO_SYNC_STABLE_TIMEOUT))) {
+						if (retry >= AUTO_SYNC_MAX_RETRIES) {
+							console.warn(`FMOD Sync: Export never finished writing, not auto-syncing: ${newer.filePath}`);
+							new Notice(`FMOD Sync: ${path.basename(newer.filePath)} never finished writing, so it wasn't auto-synced.`);
+							return;
+						}
+						// Check again later, unless the project stopped being watched meanwhile
+						console.warn(`FMOD Sync: Export still being written, checking again: ${newer.filePath}`);
+						if (this.watchers.has(project.id)) {
+							this.schedule(project, retry + 1);
+						}
+						return;
+					}
+
+					await this.onNewExport(project, newer);
+				} catch (error) {
+					console.error(`FMOD Sync: Auto-sync failed for ${project.jsonFilePath}:`, error);
+					new Notice(`FMOD Sync: Auto-sync failed: ${error instanceof Error ? error.message : error}`);
+				}
+			}, AUTO_SYNC_DEBOUNCE)
+		);
+	}
+}
@@ -1,3 +1,5 @@
+import type { TFile } from "obsidian";
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -8,6 +10,11 @@ export interface FMODInstallation {
 	version: string;        // Auto-detected version number
 }
 
+export interface CompanionScriptStatus {
+	state: "missing" | "outdated" | "current" | "newer";  // Compared with the bundled script
+	installedVersion: string | null;  // Plugin version it came with; null when missing or unversioned
+}
+
 export interface FMODParameter {
 	name: string;
 	type: string;
@@ -28,6 +35,32 @@ export interface FMODAudioFile {
 	asset_path: string;  // Relative path in FMOD assets folder
 }
 
+export interface FMODMarker {
+	type: "destination" | "transition";
+	name: string;
+	position: number;      // Seconds from the start of the timeline
+	length?: number;       // Transition regions only
+	destination?: string;  // Name of the destination marker a transition jumps to
+}
+
+export interface FMODTempoMarker {
+	position: number;
+	tempo: number;           // Beats per minute
+	time_signature: string;  // e.g. "4/4"
+}
+
+export interface FMODLoopRegion {
+	start: number;
+	end: number;
+}
+
+export interface FMODTimeline {
+	length: number;  // Seconds; 0 when the timeline is empty
+	markers: FMODMarker[];
+	tempo: FMODTempoMarker[];
+	loop_regions: FMODLoopRegion[];
+}
+
 export interface FMODEvent {
 	name: string;
 	guid: string;
@@ -35,32 +68,72 @@ export interface FMODEvent {
 	folder_path: string;
 	banks: string[];
 	loop_type: string;
+	timeline: FMODTimeline;
 	space: string;
 	max_voices: number | string;
 	notes: string;
 	parameters: FMODParameter[];
 	user_properties: FMODUserProperty[];
 	audio_files?: FMODAudioFile[];
+	output_bus: string;  // Path of the bus the event routes into, e.g. "bus:/SFX"
+	referenced_events: string[];  // GUIDs of events played by this event's event instruments
+}
+
+export type FMODStructureKind = "bank" | "bus" | "vca" | "snapshot";
+
+export interface FMODStructureItem {
+	guid: string;
+	name: string;
+	path: string;    // e.g. "bank:/Music", "bus:/SFX/Footsteps", "vca:/Dialogue"
+	parent: string;  // Path of the bus a bus routes into, "" for everything else
+	notes: string;
 }
 
 export interface FMODExportData {
+	schema_version: number;  // Export format version, see EXPORT_SCHEMA_VERSION
 	exported_at: string;
 	fmod_version?: string;
 	project_name: string;
 	project_path: string;
 	event_count: number;
 	events: FMODEvent[];
+	banks: FMODStructureItem[];
+	buses: FMODStructureItem[];
+	vcas: FMODStructureItem[];
+	snapshots: FMODStructureItem[];
 }
 
+export type OrphanAction = "mark" | "archive" | "delete";
+
+export type CollisionStrategy = "skip" | "same-folder" | "folder-suffix" | "guid-suffix" | "full-path";
+
+export interface EventFilter {
+	includePaths?: string[];       // Only sync events whose full_path matches one of these
+	excludePaths?: string[];       // Never sync events whose full_path matches one of these
+	banks?: string[];              // Only sync events assigned to one of these banks
+	excludeProperties?: string[];  // Skip events whose user properties match, e.g. "doc=false"
+}
+
+export type NoteLayout = "mirror" | "flat" | "custom";
+
 export interface FMODProjectConfig {
 	id: string;
 	jsonFilePath: string;
 	outputFolder: string;
+	orphanAction?: OrphanAction;  // What to do with notes whose event was deleted in FMOD
+	writeSyncReport?: boolean;    // Write a changelog note after every sync
+	autoSync?: boolean;           // Sync automatically when a newer export appears
+	collisionStrategy?: CollisionStrategy;  // How to name events that share a name
+	noteLayout?: NoteLayout;      // Where notes go inside the vault folder
+	eventPathTemplate?: string;   // Custom layout: event note path, e.g. "Events/{bank}/{name}"
+	audioPathTemplate?: string;   // Custom layout: audio file note path
+	eventFilter?: EventFilter;    // Which events are synced
 	// Metadata extracted from JSON on sync
 	fmodProjectName?: string;  // Project name from JSON
 	fmodProjectPath?: string;  // Path to .fspro file
 	fmodVersion?: string;      // FMOD Studio version
 	lastExportedAt?: string;   // When JSON was exported
+	plannedEvents?: PlannedEvent[];  // Planned notes with no matching event after the last sync
 	// Version override for opening project
 	selectedFmodInstallationId?: string;  // Override version for this project
 }
@@ -68,6 +141,39 @@ export interface FMODProjectConfig {
 export interface FMODSyncSettings {
 	projects: FMODProjectConfig[];
 	fmodInstallations: FMODInstallation[];
+	syncHistory?: SyncHistoryEntry[];  // Summaries, newest first, capped at MAX_HISTORY_ENTRIES
+}
+
+export interface FieldChange {
+	key: string;
+	oldValue: string | null;  // null when the property was added
+	newValue: string | null;  // null when the property was removed
+}
+
+export interface SyncHistoryChange {
+	type: SyncChangeType;
+	name: string;
+	path: string;
+	oldPath?: string;
+	fields?: FieldChange[];  // Frontmatter properties that changed
+}
+
+export interface SyncHistoryEntry {
+	id: string;
+	projectId: string;
+	projectName: string;
+	exportFile: string;
+	exportedAt: string;
+	fmodVersion?: string;
+	syncedAt: string;
+	durationMs: number;
+	stats: SyncStats;
+}
+
+// Kept in its own file per sync, see SyncHistoryStore
+export interface SyncHistoryDetails {
+	skipped: SkipReason[];
+	changes: SyncHistoryChange[];  // Everything except unchanged notes
 }
 
 export interface ParsedFrontmatter {
@@ -80,7 +186,11 @@ export interface SyncStats {
 	updated: number;
 	moved: number;
 	skipped: number;
+	unchanged: number;
+	removed: number;
+	conflicts: number;
 	errors: number;
+	cancelled?: boolean;  // Sync was stopped before all changes were written
 }
 
 export interface NewerExportInfo {
@@ -89,16 +199,52 @@ export interface NewerExportInfo {
 	exportDate: Date;
 }
 
+export interface ParameterChange {
+	name: string;
+	oldRange: string | null;  // null when the parameter was added
+	newRange: string | null;  // null when the parameter was removed
+}
+
+export interface EventDiff {
+	guid: string;
+	name: string;
+	fullPath: string;
+	folderPath: string;
+	oldName?: string;        // Set when the event was renamed
+	oldFolderPath?: string;  // Set when the event was moved to another folder
+	banksAdded: string[];
+	banksRemoved: string[];
+	parameters: ParameterChange[];
+	audioAdded: string[];    // Asset paths
+	audioRemoved: string[];
+}
+
+export interface ExportDiff {
+	older: FMODExportData;
+	newer: FMODExportData;
+	added: FMODEvent[];
+	removed: FMODEvent[];
+	changed: EventDiff[];  // Events in both exports with at least one change
+}
+
 export interface ProjectPickerItem {
 	type: "all" | "single";
 	project?: FMODProjectConfig;
 }
 
+export interface ExistingNote {
+	file: TFile;
+	path: string;
+	frontmatter: Record<string, unknown>;  // From the metadata cache
+	content?: string;                      // Only set once the file has been read
+}
+
 export interface SyncProgress {
-	phase: "scanning" | "processing" | "complete";
+	phase: "scanning" | "processing" | "writing" | "complete";
 	current: number;
 	total: number;
 	eventName: string;
+	projectName?: string;
 }
 
 export interface SkipReason {
@@ -106,11 +252,79 @@ export interface SkipReason {
 	reason: string;
 }
 
+export type SyncChangeType = "create" | "update" | "unchanged" | "move" | "skip" | "remove" | "conflict";
+
+export type ConflictResolution = "vault" | "fmod" | "both";
+
+export interface SyncChange {
+	type: SyncChangeType;
+	noteKind: "event" | "audio" | FMODStructureKind;
+	name: string;                // Event name or audio filename
+	path: string;                // Target note path
+	oldPath?: string;            // Current note path when the note moves
+	content?: string;            // Markdown to write (for conflicts, FMOD's version)
+	oldContent?: string | null;  // Current note content, if the note exists
+	reason?: string;             // Why the change was skipped
+	trash?: boolean;             // Remove the note instead of rewriting it
+	adopted?: boolean;           // A planned note is taken over by its event
+}
+
+export interface PlannedEvent {
+	name: string;       // Note name
+	path: string;       // Note path in the vault
+	fullPath: string;   // Intended event:/ path
+	banks: string[];    // Intended banks
+}
+
+export interface SyncPlan {
+	changes: SyncChange[];
+	failures: SkipReason[];  // Events or files that could not be planned
+}
+
 export interface FMODAudioFileNote {
 	filename: string;        // e.g., "hit.wav"
 	absolutePath: string;    // Filesystem path for ext:/// link
 	assetPath: string;       // Relative path in FMOD assets (for folder mirroring)
-	eventNames: string[];    // Events that use this file (for wiki links)
+	eventNames: string[];    // Note names of events that use this file (for wiki links)
+	metadata?: AudioFileMetadata | null;  // From the file's headers, if it could be read
+}
+
+export interface AudioFileMetadata {
+	format: string;       // "WAV", "AIFF", "FLAC" or "Ogg"
+	duration: number;     // Seconds
+	sampleRate: number;   // Hz
+	bitDepth?: number;    // Not stored in Ogg files
+	channels: number;
+	fileSize: number;     // Bytes
+}
+
+export interface AudioMetadataCacheEntry {
+	mtime: number;
+	size: number;
+	metadata: AudioFileMetadata | null;  // null for files that couldn't be parsed
+}
+
+// Audio file metadata by absolute path
+export type AudioMetadataCache = Record<string, AudioMetadataCacheEntry>;
+
+export interface EventNoteLinks {
+	banks: string[];    // Wiki links to the event's bank notes
+	outputBus: string;  // Wiki link to the output bus note, "" if there is none
+	uses: string[];     // Wiki links to the events this event plays
+	usedBy: string[];   // Wiki links to the events that play this event
+}
+
+export interface FMODStructureNote {
+	kind: FMODStructureKind;
+	item: FMODStructureItem;
+	output: string;     // Wiki link to the bus a bus routes into
+	inputs: string[];   // Wiki links to buses that route into this bus
+	events: string[];   // Wiki links to events in this bank, or routed into this bus
+}
+
+export interface DiffLine {
+	type: "same" | "add" | "remove";
+	text: string;
 }
 
 export interface ValidationResult {
@@ -119,6 +333,18 @@ export interface ValidationResult {
 	errors: string[];
 }
 
+export interface FMODEventDocs {
+	notes: string;
+	userProperties: { name: string; value: string }[];
+}
+
+export interface PushChange {
+	kind: "notes" | "property";
+	name: string;            // "Notes" or the user property name
+	oldValue: string | null; // Current value in FMOD, null if the property doesn't exist yet
+	newValue: string;        // Value from the note
+}
+
 export interface FMODConnectionResult {
 	success: boolean;
 	response?: string;
@@ -1,5 +1,26 @@
-import { App, FuzzySuggestModal, TFolder } from "obsidian";
-import type { FMODProjectConfig, ProjectPickerItem } from "../types";
+import { App, FuzzySuggestModal, Modal, Setting, TFolder } from "obsidian";
+import type {
+	FMODProjectConfig,
+	NewerExportInfo,
+	PlannedEvent,
+	ProjectPickerItem,
+	PushChange,
+	SyncHistoryEntry,
+	SyncHistoryDetails,
+	SyncHistoryChange,
+	SkipReason,
+	ConflictResolution,
+	SyncChange,
+	SyncChangeType,
+	SyncProgress,
+} from "../types";
+import { parseFrontmatter } from "../markdown/frontmatter";
+import { diffLines, hasChanges } from "../utils/diff";
+import { extractManagedSections, formatManagedSections, resolveManagedConflict } from "../markdown/managed";
+
+// Electron remote for native file dialogs
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { remote } = require("electron");
 
 /**
  * Modal for selecting which project(s) to sync.
@@ -7,20 +28,24 @@ import type { FMODProjectConfig, ProjectPickerItem } from "../types";
 export class ProjectPickerModal extends FuzzySuggestModal<ProjectPickerItem> {
 	private projects: FMODProjectConfig[];
 	private onChoose: (item: ProjectPickerItem) => void;
+	private includeAll: boolean;
 
 	constructor(
 		app: App,
 		projects: FMODProjectConfig[],
-		onChoose: (item: ProjectPickerItem) => void
+		onChoose: (item: ProjectPickerItem) => void,
+		includeAll = true,
+		placeholder = "Select a project to sync..."
 	) {
 		super(app);
 		this.projects = projects;
 		this.onChoose = onChoose;
-		this.setPlaceholder("Select a project to sync...");
+		this.includeAll = includeAll;
+		this.setPlaceholder(placeholder);
 	}
 
 	getItems(): ProjectPickerItem[] {
-		const items: ProjectPickerItem[] = [{ type: "all" }];
+		const items: ProjectPickerItem[] = this.includeAll ? [{ type: "all" }] : [];
 		for (const project of this.projects) {
 			items.push({ type: "single", project });
 		}
@@ -39,6 +64,39 @@ export class ProjectPickerModal extends FuzzySuggestModal<ProjectPickerItem> {
 	}
 }
 
+export interface EventMatch {
+	guid: string;
+	project: string;
+	notePath: string;
+}
+
+/**
+ * Modal for choosing between events with the same path in different projects.
+ */
+export class EventPickerModal extends FuzzySuggestModal<EventMatch> {
+	private matches: EventMatch[];
+	private onChoose: (match: EventMatch) => void;
+
+	constructor(app: App, matches: EventMatch[], onChoose: (match: EventMatch) => void) {
+		super(app);
+		this.matches = matches;
+		this.onChoose = onChoose;
+		this.setPlaceholder("This event exists in several projects. Select one...");
+	}
+
+	getItems(): EventMatch[] {
+		return this.matches;
+	}
+
+	getItemText(item: EventMatch): string {
+		return `${item.project || "Unknown project"} (${item.notePath})`;
+	}
+
+	onChooseItem(item: EventMatch): void {
+		this.onChoose(item);
+	}
+}
+
 /**
  * Modal for selecting a folder in the vault.
  */
@@ -82,3 +140,980 @@ export class FolderPickerModal extends FuzzySuggestModal<TFolder> {
 		this.onChoose(folder);
 	}
 }
+
+/**
+ * Modal showing the changes a sync would make, so they can be reviewed
+ * and applied in full, in part, or not at all.
+ */
+export class SyncPreviewModal extends Modal {
+	private projectName: string;
+	private changes: SyncChange[];
+	private onApply: (changes: SyncChange[]) => void;
+	private selected: Set<SyncChange>;
+	private checkboxes: Map<SyncChange, HTMLInputElement> = new Map();
+
+	private static readonly GROUPS: { type: SyncChangeType; label: string }[] = [
+		{ type: "create", label: "Create" },
+		{ type: "update", label: "Update" },
+		{ type: "unchanged", label: "Unchanged" },
+		{ type: "move", label: "Move" },
+		{ type: "remove", label: "Remove" },
+		{ type: "conflict", label: "Conflict" },
+		{ type: "skip", label: "Skip" },
+	];
+
+	constructor(
+		app: App,
+		projectName: string,
+		changes: SyncChange[],
+		onApply: (changes: SyncChange[]) => void
+	) {
+		super(app);
+		this.projectName = projectName;
+		this.changes = changes;
+		this.onApply = onApply;
+		this.selected = new Set(
+			changes.filter((c) => c.type !== "skip" && c.type !== "unchanged" && c.type !== "conflict")
+		);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("fmod-sync-preview");
+
+		this.titleEl.setText(`Preview sync: ${this.projectName}`);
+
+		// Summary counts
+		const counts = SyncPreviewModal.GROUPS.map((g) => {
+			const count = this.changes.filter((c) => c.type === g.type).length;
+			return `${g.label}: ${count}`;
+		});
+		contentEl.createEl("div", { cls: "fmod-preview-summary", text: counts.join(" | ") });
+
+		// Selection toolbar
+		const toolbar = contentEl.createDiv({ cls: "fmod-preview-toolbar" });
+		const selectAllBtn = toolbar.createEl("button", { text: "Select all" });
+		selectAllBtn.addEventListener("click", () => this.setAllSelected(true));
+		const selectNoneBtn = toolbar.createEl("button", { text: "Select none" });
+		selectNoneBtn.addEventListener("click", () => this.setAllSelected(false));
+
+		// Changes grouped by type
+		const list = contentEl.createDiv({ cls: "fmod-preview-list" });
+		for (const group of SyncPreviewModal.GROUPS) {
+			const groupChanges = this.changes.filter((c) => c.type === group.type);
+			// Unchanged notes are only counted in the summary
+			if (groupChanges.length === 0 || group.type === "unchanged") continue;
+
+			list.createEl("h4", { text: `${group.label} (${groupChanges.length})` });
+			for (const change of groupChanges) {
+				this.renderChange(list, change);
+			}
+		}
+
+		if (this.changes.every((c) => c.type === "unchanged")) {
+			list.createEl("p", { cls: "fmod-preview-empty", text: "Nothing to sync." });
+		}
+
+		// Actions
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button.setButtonText("Apply selected").onClick(() => {
+					this.close();
+					this.onApply(
+						this.changes.filter(
+							(c) =>
+								c.type === "skip" ||
+								c.type === "unchanged" ||
+								c.type === "conflict" ||
+								this.selected.has(c)
+						)
+					);
+				})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Apply all")
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onApply(this.changes);
+					})
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		this.checkboxes.clear();
+	}
+
+	private renderChange(container: HTMLElement, change: SyncChange): void {
+		const row = container.createEl("details", { cls: `fmod-preview-change fmod-preview-${change.type}` });
+		const summary = row.createEl("summary");
+
+		// Skips and conflicts are never written directly
+		if (change.type !== "skip" && change.type !== "conflict") {
+			const checkbox = summary.createEl("input", { attr: { type: "checkbox" } });
+			checkbox.checked = this.selected.has(change);
+			checkbox.addEventListener("click", (evt) => evt.stopPropagation());
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selected.add(change);
+				} else {
+					this.selected.delete(change);
+				}
+			});
+			this.checkboxes.set(change, checkbox);
+		}
+
+		summary.createEl("span", { cls: "fmod-preview-name", text: change.name });
+
+		let pathText = change.path;
+		if (change.oldPath) {
+			pathText = `${change.oldPath} → ${change.path}`;
+		}
+		if ((change.type === "skip" || change.type === "conflict") && change.reason) {
+			pathText = change.reason;
+		} else if (change.trash) {
+			pathText = `${change.path} (delete)`;
+		}
+		summary.createEl("span", { cls: "fmod-preview-path", text: pathText });
+
+		// Render diffs lazily when the row is expanded
+		let rendered = false;
+		row.addEventListener("toggle", () => {
+			if (!row.open || rendered) return;
+			rendered = true;
+			this.renderDiff(row, change);
+		});
+	}
+
+	private renderDiff(container: HTMLElement, change: SyncChange): void {
+		if (change.type === "skip" || change.trash) return;
+
+		const oldContent = change.oldContent || "";
+		const newContent = change.content || "";
+		const oldBodyStart = parseFrontmatter(oldContent).bodyStart;
+		const newBodyStart = parseFrontmatter(newContent).bodyStart;
+
+		const sections = [
+			{
+				label: "Frontmatter",
+				diff: diffLines(oldContent.substring(0, oldBodyStart), newContent.substring(0, newBodyStart)),
+			},
+			{
+				label: "Body",
+				diff: diffLines(oldContent.substring(oldBodyStart), newContent.substring(newBodyStart)),
+			},
+		];
+
+		for (const section of sections) {
+			if (!hasChanges(section.diff)) continue;
+
+			container.createEl("div", { cls: "fmod-preview-diff-label", text: section.label });
+			const pre = container.createEl("pre", { cls: "fmod-preview-diff" });
+			for (const line of section.diff) {
+				if (line.type === "same") continue;
+				pre.createEl("div", {
+					cls: line.type === "add" ? "fmod-diff-add" : "fmod-diff-remove",
+					text: `${line.type === "add" ? "+" : "-"} ${line.text}`,
+				});
+			}
+		}
+
+		if (!sections.some((s) => hasChanges(s.diff))) {
+			container.createEl("div", { cls: "fmod-preview-diff-label", text: "No content changes" });
+		}
+	}
+
+	private setAllSelected(selected: boolean): void {
+		for (const [change, checkbox] of this.checkboxes) {
+			checkbox.checked = selected;
+			if (selected) {
+				this.selected.add(change);
+			} else {
+				this.selected.delete(change);
+			}
+		}
+	}
+}
+
+/**
+ * Modal showing sync progress, with a Cancel button that stops the engine
+ * between notes. Closing the modal also cancels the sync.
+ */
+export class SyncProgressModal extends Modal {
+	cancelled = false;
+	private finished = false;
+	private projectEl: HTMLElement | null = null;
+	private phaseEl: HTMLElement | null = null;
+	private barEl: HTMLProgressElement | null = null;
+	private eventEl: HTMLElement | null = null;
+	private cancelBtn: HTMLButtonElement | null = null;
+
+	private static readonly PHASE_LABELS: Record<SyncProgress["phase"], string> = {
+		scanning: "Scanning existing notes...",
+		processing: "Planning changes",
+		writing: "Writing notes",
+		complete: "Finishing...",
+	};
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("fmod-sync-progress");
+
+		this.titleEl.setText("FMOD Sync");
+
+		this.projectEl = contentEl.createEl("div", { cls: "fmod-progress-project" });
+		this.phaseEl = contentEl.createEl("div", { cls: "fmod-progress-phase", text: "Starting..." });
+		this.barEl = contentEl.createEl("progress", { cls: "fmod-progress-bar" });
+		this.eventEl = contentEl.createEl("div", { cls: "fmod-progress-event" });
+
+		const actions = contentEl.createDiv({ cls: "fmod-progress-actions" });
+		this.cancelBtn = actions.createEl("button", { text: "Cancel" });
+		this.cancelBtn.addEventListener("click", () => this.cancel());
+	}
+
+	/**
+	 * Show the latest progress reported by the sync engine.
+	 */
+	update(progress: SyncProgress): void {
+		if (progress.projectName && this.projectEl) {
+			this.projectEl.setText(progress.projectName);
+		}
+
+		let phaseText = SyncProgressModal.PHASE_LABELS[progress.phase];
+		if (progress.total > 0 && progress.phase !== "complete") {
+			phaseText += ` (${progress.current} / ${progress.total})`;
+		}
+		if (this.cancelled) {
+			phaseText = "Cancelling...";
+		}
+		this.phaseEl?.setText(phaseText);
+
+		if (this.barEl) {
+			if (progress.total > 0) {
+				this.barEl.max = progress.total;
+				this.barEl.value = progress.current;
+			} else {
+				this.barEl.removeAttribute("value");
+			}
+		}
+
+		this.eventEl?.setText(progress.eventName);
+	}
+
+	/**
+	 * Close the modal once the sync has finished.
+	 */
+	finish(): void {
+		this.finished = true;
+		this.close();
+	}
+
+	onClose(): void {
+		// Dismissing the modal while syncing stops the sync
+		if (!this.finished) {
+			this.cancelled = true;
+		}
+		this.contentEl.empty();
+	}
+
+	private cancel(): void {
+		this.cancelled = true;
+		if (this.cancelBtn) {
+			this.cancelBtn.disabled = true;
+			this.cancelBtn.textContent = "Cancelling...";
+		}
+		this.phaseEl?.setText("Cancelling...");
+	}
+}
+
+/**
+ * Modal for entering the intended path, bank and 2D/3D setting of a planned event.
+ */
+export class PlannedEventModal extends Modal {
+	private onSubmit: (fullPath: string, bank: string, space: string) => void;
+	private fullPath = "event:/";
+	private bank = "";
+	private space = "2D";
+
+	constructor(app: App, onSubmit: (fullPath: string, bank: string, space: string) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText("New planned FMOD event");
+
+		new Setting(contentEl)
+			.setName("Event path")
+			.setDesc("Where the event will live in FMOD, including its name.")
+			.addText((text) => {
+				text
+					.setPlaceholder("event:/UI/Click")
+					.setValue(this.fullPath)
+					.onChange((value) => {
+						this.fullPath = value;
+					});
+				text.inputEl.addEventListener("keydown", (evt) => {
+					if (evt.key === "Enter") {
+						evt.preventDefault();
+						this.submit();
+					}
+				});
+			});
+
+		new Setting(contentEl)
+			.setName("Bank")
+			.setDesc("Bank the event will be assigned to (optional).")
+			.addText((text) =>
+				text
+					.setPlaceholder("Master")
+					.onChange((value) => {
+						this.bank = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Space")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("2D", "2D")
+					.addOption("3D", "3D")
+					.setValue(this.space)
+					.onChange((value) => {
+						this.space = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Create")
+					.setCta()
+					.onClick(() => this.submit())
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		this.close();
+		this.onSubmit(this.fullPath.trim(), this.bank.trim(), this.space);
+	}
+}
+
+export interface PlannedEventGroup {
+	project: FMODProjectConfig;
+	projectName: string;
+	planned: PlannedEvent[];
+}
+
+/**
+ * Modal listing planned events that have no matching FMOD event yet.
+ * Each project's planned events can be created in FMOD Studio in one go.
+ */
+export class PlannedEventsModal extends Modal {
+	private plannedByProject: PlannedEventGroup[];
+	private onOpenNote: (path: string) => void;
+	private onCreateInFmod: (group: PlannedEventGroup) => void;
+
+	constructor(
+		app: App,
+		plannedByProject: PlannedEventGroup[],
+		onOpenNote: (path: string) => void,
+		onCreateInFmod: (group: PlannedEventGroup) => void
+	) {
+		super(app);
+		this.plannedByProject = plannedByProject;
+		this.onOpenNote = onOpenNote;
+		this.onCreateInFmod = onCreateInFmod;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("fmod-planned-events");
+
+		this.titleEl.setText("Planned FMOD events");
+
+		const total = this.plannedByProject.reduce((n, p) => n + p.planned.length, 0);
+		contentEl.createEl("div", {
+			cls: "fmod-preview-summary",
+			text: `${total} planned event(s) with no matching event after the latest sync`,
+		});
+
+		const list = contentEl.createDiv({ cls: "fmod-preview-list" });
+		for (const group of this.plannedByProject) {
+			const { projectName, planned } = group;
+			if (planned.length === 0) continue;
+
+			const header = list.createDiv({ cls: "fmod-conflict-header" });
+			header.createEl("h4", { text: `${projectName} (${planned.length})` });
+			const createBtn = header.createEl("button", {
+				text: "Create in FMOD",
+				attr: { "aria-label": "Create these events in the open FMOD Studio project" },
+			});
+			createBtn.addEventListener("click", () => {
+				this.close();
+				this.onCreateInFmod(group);
+			});
+
+			for (const event of planned) {
+				const row = list.createDiv({ cls: "fmod-planned-event" });
+				const link = row.createEl("a", { cls: "fmod-preview-name", text: event.name, href: "#" });
+				link.addEventListener("click", (evt) => {
+					evt.preventDefault();
+					this.close();
+					this.onOpenNote(event.path);
+				});
+				const details = [event.fullPath, ...event.banks].filter(Boolean).join(" | ");
+				if (details) {
+					row.createEl("span", { cls: "fmod-preview-path", text: details });
+				}
+			}
+		}
+
+		if (total === 0) {
+			list.createEl("p", { cls: "fmod-preview-empty", text: "No planned events waiting." });
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Modal for resolving notes whose managed sections changed in both Obsidian and FMOD.
+ * Shows each side next to the result of the chosen resolution.
+ */
+export class ConflictModal extends Modal {
+	private conflicts: SyncChange[];
+	private onResolve: (resolutions: Map<SyncChange, ConflictResolution>) => void;
+	private resolutions: Map<SyncChange, ConflictResolution> = new Map();
+
+	private static readonly OPTIONS: { value: ConflictResolution; label: string }[] = [
+		{ value: "both", label: "Keep both" },
+		{ value: "vault", label: "Keep Obsidian" },
+		{ value: "fmod", label: "Keep FMOD" },
+	];
+
+	constructor(
+		app: App,
+		conflicts: SyncChange[],
+		onResolve: (resolutions: Map<SyncChange, ConflictResolution>) => void
+	) {
+		super(app);
+		this.conflicts = conflicts;
+		this.onResolve = onResolve;
+		for (const conflict of conflicts) {
+			this.resolutions.set(conflict, "both");
+		}
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("fmod-conflicts");
+
+		this.titleEl.setText("Resolve sync conflicts");
+
+		contentEl.createEl("div", {
+			cls: "fmod-preview-summary",
+			text: `${this.conflicts.length} note(s) were edited in Obsidian while FMOD changed the same sections. ` +
+				"Choose what to keep. Unresolved notes are checked again on the next sync.",
+		});
+
+		const list = contentEl.createDiv({ cls: "fmod-preview-list" });
+		for (const conflict of this.conflicts) {
+			this.renderConflict(list, conflict);
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Resolve later").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Apply")
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onResolve(this.resolutions);
+					})
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderConflict(container: HTMLElement, conflict: SyncChange): void {
+		const block = container.createDiv({ cls: "fmod-conflict" });
+
+		const header = block.createDiv({ cls: "fmod-conflict-header" });
+		header.createEl("span", { cls: "fmod-preview-name", text: conflict.name });
+		header.createEl("span", { cls: "fmod-preview-path", text: conflict.oldPath || conflict.path });
+
+		const select = header.createEl("select", { cls: "dropdown" });
+		for (const option of ConflictModal.OPTIONS) {
+			const opt = select.createEl("option", { text: option.label, value: option.value });
+			opt.selected = this.resolutions.get(conflict) === option.value;
+		}
+
+		const panes = block.createDiv({ cls: "fmod-conflict-panes" });
+		const addPane = (label: string, text: string): HTMLElement => {
+			const pane = panes.createDiv({ cls: "fmod-conflict-pane" });
+			pane.createEl("div", { cls: "fmod-preview-diff-label", text: label });
+			return pane.createEl("pre", { cls: "fmod-preview-diff", text });
+		};
+
+		const vaultContent = conflict.oldContent || "";
+		const fmodContent = conflict.content || "";
+		addPane("In Obsidian", formatManagedSections(extractManagedSections(vaultContent)));
+		addPane("From FMOD", formatManagedSections(extractManagedSections(fmodContent)));
+		const resultEl = addPane("Result", "");
+
+		const showResult = () => {
+			const resolution = this.resolutions.get(conflict) || "both";
+			const resolved = resolveManagedConflict(fmodContent, vaultContent, resolution);
+			resultEl.setText(resolved.substring(parseFrontmatter(resolved).bodyStart).trim());
+		};
+		showResult();
+
+		select.addEventListener("change", () => {
+			this.resolutions.set(conflict, select.value as ConflictResolution);
+			showResult();
+		});
+	}
+}
+
+/**
+ * Modal confirming which note edits to push to an event in FMOD Studio.
+ * Each change shows the difference between FMOD and the note.
+ */
+export class PushToFmodModal extends Modal {
+	private eventName: string;
+	private changes: PushChange[];
+	private onConfirm: (changes: PushChange[]) => void;
+	private selected: Set<PushChange>;
+
+	constructor(
+		app: App,
+		eventName: string,
+		changes: PushChange[],
+		onConfirm: (changes: PushChange[]) => void
+	) {
+		super(app);
+		this.eventName = eventName;
+		this.changes = changes;
+		this.onConfirm = onConfirm;
+		this.selected = new Set(changes);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("fmod-push");
+
+		this.titleEl.setText(`Push to FMOD: ${this.eventName}`);
+
+		contentEl.createEl("div", {
+			cls: "fmod-preview-summary",
+			text: "These changes will be written to the event in FMOD Studio.",
+		});
+
+		const list = contentEl.createDiv({ cls: "fmod-preview-list" });
+		for (const change of this.changes) {
+			const row = list.createDiv({ cls: "fmod-push-change" });
+			const header = row.createDiv({ cls: "fmod-conflict-header" });
+
+			const checkbox = header.createEl("input", { attr: { type: "checkbox" } });
+			checkbox.checked = true;
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selected.add(change);
+				} else {
+					this.selected.delete(change);
+				}
+			});
+
+			header.createEl("span", {
+				cls: "fmod-preview-name",
+				text: change.kind === "notes" ? "Notes" : `User property: ${change.name}`,
+			});
+			if (change.oldValue === null) {
+				header.createEl("span", { cls: "fmod-preview-path", text: "(new)" });
+			}
+
+			const pre = row.createEl("pre", { cls: "fmod-preview-diff" });
+			for (const line of diffLines(change.oldValue ?? "", change.newValue)) {
+				if (line.type === "same") {
+					pre.createEl("div", { text: `  ${line.text}` });
+				} else {
+					pre.createEl("div", {
+						cls: line.type === "add" ? "fmod-diff-add" : "fmod-diff-remove",
+						text: `${line.type === "add" ? "+" : "-"} ${line.text}`,
+					});
+				}
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Push selected")
+					.setCta()
+					.onClick(() => {
+						this.close();
+						const selected = this.changes.filter((c) => this.selected.has(c));
+						if (selected.length > 0) {
+							this.onConfirm(selected);
+						}
+					})
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Modal listing past syncs, newest first, with drill-down into each sync's changes.
+ * Filter by project, or by note name to see when a particular event changed.
+ */
+export class SyncHistoryModal extends Modal {
+	private entries: SyncHistoryEntry[];
+	private projects: FMODProjectConfig[];
+	private loadDetails: (entry: SyncHistoryEntry) => Promise<SyncHistoryDetails | null>;
+	private onClear: () => Promise<void>;
+	private projectId = "";
+	private query = "";
+	private listEl: HTMLElement | null = null;
+	// Details are read from disk the first time a sync is expanded or searched
+	private details: Map<string, Promise<SyncHistoryDetails | null>> = new Map();
+	private renderId = 0;
+
+	private static readonly CHANGE_LABELS: Record<SyncChangeType, string> = {
+		create: "Created",
+		update: "Updated",
+		unchanged: "Unchanged",
+		move: "Moved",
+		remove: "Removed",
+		conflict: "Conflict",
+		skip: "Skipped",
+	};
+
+	constructor(
+		app: App,
+		entries: SyncHistoryEntry[],
+		projects: FMODProjectConfig[],
+		loadDetails: (entry: SyncHistoryEntry) => Promise<SyncHistoryDetails | null>,
+		onClear: () => Promise<void>
+	) {
+		super(app);
+		this.entries = entries;
+		this.projects = projects;
+		this.loadDetails = loadDetails;
+		this.onClear = onClear;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("fmod-sync-history");
+
+		this.titleEl.setText("FMOD sync history");
+
+		const toolbar = contentEl.createDiv({ cls: "fmod-preview-toolbar" });
+
+		const select = toolbar.createEl("select", { cls: "dropdown" });
+		select.createEl("option", { text: "All projects", value: "" });
+		for (const project of this.projects) {
+			select.createEl("option", {
+				text: project.fmodProjectName || project.outputFolder || project.id,
+				value: project.id,
+			});
+		}
+		select.addEventListener("change", () => {
+			this.projectId = select.value;
+			void this.renderList();
+		});
+
+		const search = toolbar.createEl("input", {
+			attr: { type: "search", placeholder: "Filter by note name..." },
+		});
+		search.addEventListener("input", () => {
+			this.query = search.value.trim().toLowerCase();
+			void this.renderList();
+		});
+
+		const clearBtn = toolbar.createEl("button", { text: "Clear history" });
+		clearBtn.addEventListener("click", async () => {
+			await this.onClear();
+			this.entries = [];
+			this.details.clear();
+			void this.renderList();
+		});
+
+		this.listEl = contentEl.createDiv({ cls: "fmod-preview-list" });
+		void this.renderList();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private getDetails(entry: SyncHistoryEntry): Promise<SyncHistoryDetails | null> {
+		let details = this.details.get(entry.id);
+		if (!details) {
+			details = this.loadDetails(entry);
+			this.details.set(entry.id, details);
+		}
+		return details;
+	}
+
+	private async renderList(): Promise<void> {
+		if (!this.listEl) return;
+		// Searching reads every sync's details; drop the result if the filter changed meanwhile
+		const renderId = ++this.renderId;
+		const query = this.query;
+		const entries = this.entries.filter((e) => !this.projectId || e.projectId === this.projectId);
+
+		const matches: { entry: SyncHistoryEntry; changes: SyncHistoryChange[] }[] = [];
+		for (const entry of entries) {
+			if (!query) {
+				matches.push({ entry, changes: [] });
+				continue;
+			}
+			const details = await this.getDetails(entry);
+			const changes = (details?.changes || []).filter((c) => c.name.toLowerCase().includes(query));
+			if (changes.length > 0) {
+				matches.push({ entry, changes });
+			}
+		}
+		if (renderId !== this.renderId) return;
+
+		this.listEl.empty();
+		for (const { entry, changes } of matches) {
+			this.renderEntry(this.listEl, entry, query ? changes : null);
+		}
+
+		if (matches.length === 0) {
+			this.listEl.createEl("p", { cls: "fmod-preview-empty", text: "No syncs recorded." });
+		}
+	}
+
+	/**
+	 * Render a sync. Search matches are passed in and shown expanded; otherwise
+	 * the sync's details are loaded when it is first expanded.
+	 */
+	private renderEntry(
+		container: HTMLElement,
+		entry: SyncHistoryEntry,
+		matches: SyncHistoryChange[] | null
+	): void {
+		const row = container.createEl("details", { cls: "fmod-history-entry" });
+
+		const summary = row.createEl("summary");
+		const syncedAt = new Date(entry.syncedAt).toLocaleString(undefined, {
+			year: "numeric",
+			month: "short",
+			day: "numeric",
+			hour: "2-digit",
+			minute: "2-digit",
+		});
+		summary.createEl("span", { cls: "fmod-preview-name", text: `${syncedAt} - ${entry.projectName}` });
+
+		const { stats } = entry;
+		const counts = [
+			`${stats.created} created`,
+			`${stats.updated} updated`,
+			`${stats.moved} moved`,
+			stats.removed > 0 ? `${stats.removed} removed` : "",
+			stats.skipped > 0 ? `${stats.skipped} skipped` : "",
+			stats.errors > 0 ? `${stats.errors} errors` : "",
+			stats.cancelled ? "cancelled" : "",
+		].filter(Boolean);
+		summary.createEl("span", { cls: "fmod-preview-path", text: counts.join(", ") });
+
+		const meta = [
+			`Export: ${entry.exportFile.split(/[\\/]/).pop()}`,
+			`Exported at: ${entry.exportedAt}`,
+			entry.fmodVersion ? `FMOD ${entry.fmodVersion}` : "",
+			`Took ${(entry.durationMs / 1000).toFixed(1)}s`,
+		].filter(Boolean);
+		row.createEl("div", { cls: "fmod-preview-diff-label", text: meta.join(" | ") });
+
+		if (matches) {
+			// Expand matches straight away when searching
+			row.open = true;
+			this.renderChanges(row, matches);
+			return;
+		}
+
+		let loaded = false;
+		row.addEventListener("toggle", async () => {
+			if (!row.open || loaded) return;
+			loaded = true;
+			const details = await this.getDetails(entry);
+			if (!details) {
+				row.createEl("div", { cls: "fmod-preview-diff-label", text: "The details of this sync are no longer available." });
+				return;
+			}
+			this.renderChanges(row, details.changes);
+			this.renderSkipped(row, details.skipped);
+		});
+	}
+
+	private renderChanges(row: HTMLElement, changes: SyncHistoryChange[]): void {
+		for (const [type, label] of Object.entries(SyncHistoryModal.CHANGE_LABELS)) {
+			const group = changes.filter((c) => c.type === type);
+			if (group.length === 0) continue;
+
+			row.createEl("div", { cls: "fmod-preview-diff-label", text: `${label} (${group.length})` });
+			const pre = row.createEl("pre", { cls: "fmod-preview-diff" });
+			for (const change of group) {
+				pre.createEl("div", {
+					text: change.oldPath ? `${change.name}: ${change.oldPath} → ${change.path}` : change.name,
+				});
+				for (const field of change.fields || []) {
+					pre.createEl("div", {
+						cls: "fmod-history-field",
+						text: `    ${field.key}: ${field.oldValue ?? "(none)"} → ${field.newValue ?? "(none)"}`,
+					});
+				}
+			}
+		}
+	}
+
+	private renderSkipped(row: HTMLElement, skipped: SkipReason[]): void {
+		if (skipped.length === 0) return;
+		row.createEl("div", { cls: "fmod-preview-diff-label", text: `Skipped (${skipped.length})` });
+		const pre = row.createEl("pre", { cls: "fmod-preview-diff" });
+		for (const skip of skipped) {
+			pre.createEl("div", { text: `${skip.event}: ${skip.reason}` });
+		}
+	}
+}
+
+/**
+ * Modal for choosing two exports of a project to compare.
+ * Lists the project's timestamped exports, and any file on disk can be added with Browse.
+ */
+export class CompareExportsModal extends Modal {
+	private exports: NewerExportInfo[];
+	private onSubmit: (fromPath: string, toPath: string) => void;
+	private fromPath: string;
+	private toPath: string;
+
+	constructor(app: App, exports: NewerExportInfo[], onSubmit: (fromPath: string, toPath: string) => void) {
+		super(app);
+		this.exports = exports;
+		this.onSubmit = onSubmit;
+		// Default to the two newest exports
+		this.toPath = exports[0]?.filePath || "";
+		this.fromPath = exports[1]?.filePath || "";
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText("Compare exports");
+
+		this.addExportSetting("From", "The earlier export.", () => this.fromPath, (value) => (this.fromPath = value));
+		this.addExportSetting("To", "The later export.", () => this.toPath, (value) => (this.toPath = value));
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Write changelog")
+					.setCta()
+					.setDisabled(!this.fromPath || !this.toPath || this.fromPath === this.toPath)
+					.onClick(() => {
+						this.close();
+						this.onSubmit(this.fromPath, this.toPath);
+					})
+			);
+	}
+
+	private addExportSetting(
+		name: string,
+		desc: string,
+		getValue: () => string,
+		setValue: (value: string) => void
+	): void {
+		const setting = new Setting(this.contentEl).setName(name).setDesc(desc);
+
+		setting.addDropdown((dropdown) => {
+			dropdown.addOption("", "Choose an export...");
+			for (const info of this.exports) {
+				const date = info.exportDate.toLocaleString(undefined, {
+					year: "numeric",
+					month: "short",
+					day: "numeric",
+					hour: "2-digit",
+					minute: "2-digit",
+				});
+				dropdown.addOption(info.filePath, date);
+			}
+			// A file picked with Browse that isn't one of the listed exports
+			const value = getValue();
+			if (value && !this.exports.some((info) => info.filePath === value)) {
+				dropdown.addOption(value, value.split(/[/\\]/).pop() || value);
+			}
+			dropdown.setValue(value).onChange((selected) => {
+				setValue(selected);
+				this.render();
+			});
+		});
+
+		setting.addButton((button) =>
+			button.setButtonText("Browse").onClick(async () => {
+				const result = await remote.dialog.showOpenDialog({
+					title: `Select ${name} Export`,
+					properties: ["openFile"],
+					filters: [
+						{ name: "JSON Files", extensions: ["json"] },
+						{ name: "FMOD Studio Projects", extensions: ["fspro"] },
+						{ name: "All Files", extensions: ["*"] },
+					],
+				});
+				if (!result.canceled && result.filePaths.length > 0) {
+					setValue(result.filePaths[0]);
+					this.render();
+				}
+			})
+		);
+	}
+}
@@ -1,8 +1,23 @@
 import { App, Notice, PluginSettingTab, Setting, TFile, TFolder } from "obsidian";
-import type { FMODInstallation, FMODProjectConfig, NewerExportInfo } from "../types";
+import type {
+	FMODInstallation,
+	FMODProjectConfig,
+	NewerExportInfo,
+	OrphanAction,
+	CollisionStrategy,
+	NoteLayout,
+	EventFilter,
+} from "../types";
 import { detectFmodVersion } from "../utils/platform";
 import { parseExportFilename } from "../utils/filename";
-import { checkCompanionScriptExists, installCompanionScript } from "../companion";
+import { describeEventFilter } from "../utils/filter";
+import { EVENT_PATH_TEMPLATES, AUDIO_PATH_TEMPLATES } from "../constants";
+import {
+	BUNDLED_SCRIPT_VERSION,
+	getCompanionScriptStatus,
+	installCompanionScript,
+	uninstallCompanionScript,
+} from "../companion";
 import { FolderPickerModal } from "./modals";
 
 // Electron remote for native file dialogs and shell
@@ -156,39 +171,67 @@ export class FMODSyncSettingTab extends PluginSettingTab {
 			text: installation.version,
 		});
 
-		// Check if companion script is installed
-		const hasScript = checkCompanionScriptExists(installation.path);
+		// Check if companion script is installed and up to date
+		const script = getCompanionScriptStatus(installation.path);
 
 		// Script status indicator
-		if (hasScript) {
+		if (script.state === "current") {
 			const statusEl = item.createEl("span", {
 				cls: "fmod-script-status fmod-script-installed",
-				attr: { "aria-label": "Export script installed" },
+				attr: { "aria-label": `Export script v${script.installedVersion} installed` },
 			});
 			// Checkmark icon
 			statusEl.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M20 6 9 17l-5-5"/></svg>`;
-		} else {
-			// Install script button
-			const installBtn = item.createEl("button", {
-				cls: "fmod-install-script-btn",
-				text: "Install Export Script",
-				attr: { "aria-label": "Install the FMOD export script for this version" },
+		} else if (script.state === "outdated") {
+			item.createEl("span", {
+				cls: "fmod-script-status fmod-script-outdated",
+				text: "Update available",
+				attr: {
+					"aria-label": `Installed: ${script.installedVersion ? `v${script.installedVersion}` : "unknown version"}, bundled: v${BUNDLED_SCRIPT_VERSION}`,
+				},
+			});
+		} else if (script.state === "newer") {
+			// Installed by a later plugin version, e.g. from another vault; don't offer to downgrade it
+			item.createEl("span", {
+				cls: "fmod-script-status fmod-script-newer",
+				text: "Newer script installed",
+				attr: {
+					"aria-label": `Installed: v${script.installedVersion}, bundled: v${BUNDLED_SCRIPT_VERSION}. Update the plugin to match it.`,
+				},
 			});
-			installBtn.addEventListener("click", async () => {
-				installBtn.disabled = true;
-				installBtn.textContent = "Installing...";
+		}
 
+		if (script.state === "missing") {
+			this.addScriptButton(item, "Install Export Script", "Installing...", async () => {
 				const result = await installCompanionScript(installation.path);
-
 				if (result.success) {
 					new Notice("Export script installed. Restart FMOD Studio to use it.");
-					this.display(); // Refresh to show installed status
 				} else {
 					new Notice(`Failed to install script: ${result.error}`);
-					installBtn.disabled = false;
-					installBtn.textContent = "Install Export Script";
 				}
+				return result.success;
 			});
+		} else {
+			if (script.state === "outdated") {
+				this.addScriptButton(item, "Update Script", "Updating...", async () => {
+					const result = await installCompanionScript(installation.path);
+					if (result.success) {
+						new Notice(`Export script updated to v${BUNDLED_SCRIPT_VERSION}. Restart FMOD Studio to use it.`);
+					} else {
+						new Notice(`Failed to update script: ${result.error}`);
+					}
+					return result.success;
+				});
+			}
+			this.addScriptButton(item, "Uninstall", "Removing...", async () => {
+				const result = await uninstallCompanionScript(installation.path);
+				if (result.success) {
+					new Notice("Export script removed. Restart FMOD Studio to unload it.");
+				} else {
+					new Notice(`Failed to uninstall script: ${result.error}`);
+				}
+				return result.success;
+			}, "fmod-uninstall-script-btn");
 		}
 
 		// Path
@@ -215,6 +258,31 @@ export class FMODSyncSettingTab extends PluginSettingTab {
 		});
 	}
 
+	/**
+	 * Add a button that installs, updates or removes the export script.
+	 * The settings are redrawn when the action succeeds.
+	 */
+	private addScriptButton(
+		item: HTMLElement,
+		text: string,
+		busyText: string,
+		action: () => Promise<boolean>,
+		cls = "fmod-install-script-btn"
+	): void {
+		const button = item.createEl("button", { cls, text });
+		button.addEventListener("click", async () => {
+			button.disabled = true;
+			button.textContent = busyText;
+
+			if (await action()) {
+				this.display(); // Refresh to show the new script status
+			} else {
+				button.disabled = false;
+				button.textContent = text;
+			}
+		});
+	}
+
 	renderProjects(container: HTMLElement): void {
 		container.empty();
 
@@ -316,6 +384,16 @@ export class FMODSyncSettingTab extends PluginSettingTab {
 			info.createEl("div", { cls: "fmod-project-path fmod-not-configured", text: "Not configured - select JSON file and vault folder" });
 		}
 
+		// Event filter summary
+		const filterSummary = describeEventFilter(project.eventFilter);
+		if (filterSummary) {
+			info.createEl("div", {
+				cls: "fmod-project-filter",
+				text: `Filter: ${filterSummary}`,
+				attr: { "aria-label": filterSummary },
+			});
+		}
+
 		// Right side: action buttons
 		const actions = header.createDiv({ cls: "fmod-project-actions" });
 
@@ -543,7 +621,7 @@ export class FMODSyncSettingTab extends PluginSettingTab {
 		const jsonSetting = new Setting(settingsSection)
 			.setName("JSON file path")
 			.setDesc(
-				"Path to the obsidian-sync.json file exported from FMOD Studio."
+				"Path to the obsidian-sync.json file exported from FMOD Studio, or to the project's .fspro file to read it directly without FMOD Studio."
 			);
 
 		jsonSetting.addText((text) =>
@@ -563,10 +641,11 @@ export class FMODSyncSettingTab extends PluginSettingTab {
 				.setButtonText("Browse")
 				.onClick(async () => {
 					const result = await remote.dialog.showOpenDialog({
-						title: "Select FMOD Export JSON File",
+						title: "Select FMOD Export JSON or Project File",
 						properties: ["openFile"],
 						filters: [
 							{ name: "JSON Files", extensions: ["json"] },
+							{ name: "FMOD Studio Projects", extensions: ["fspro"] },
 							{ name: "All Files", extensions: ["*"] },
 						],
 					});
@@ -578,6 +657,160 @@ export class FMODSyncSettingTab extends PluginSettingTab {
 					}
 				})
 		);
+
+		// Note layout
+		new Setting(settingsSection)
+			.setName("Note layout")
+			.setDesc("Where event and audio file notes are placed. Existing notes are moved on the next sync.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("mirror", "Mirror FMOD folders")
+					.addOption("flat", "Flat (one folder)")
+					.addOption("custom", "Custom templates")
+					.setValue(project.noteLayout || "mirror")
+					.onChange(async (value) => {
+						project.noteLayout = value as NoteLayout;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (project.noteLayout === "custom") {
+			const tokenHelp = "Tokens: {folder_path}, {bank}, {name}, {guid_short}, {project}.";
+
+			new Setting(settingsSection)
+				.setName("Event note path")
+				.setDesc(`Relative to the vault folder. ${tokenHelp}`)
+				.addText((text) =>
+					text
+						.setPlaceholder(EVENT_PATH_TEMPLATES.mirror)
+						.setValue(project.eventPathTemplate || "")
+						.onChange(async (value) => {
+							project.eventPathTemplate = value.trim() || undefined;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(settingsSection)
+				.setName("Audio file note path")
+				.setDesc("Relative to the vault folder. Tokens: {folder_path} (asset folder), {name}, {project}.")
+				.addText((text) =>
+					text
+						.setPlaceholder(AUDIO_PATH_TEMPLATES.mirror)
+						.setValue(project.audioPathTemplate || "")
+						.onChange(async (value) => {
+							project.audioPathTemplate = value.trim() || undefined;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		// Event filters (one pattern per line)
+		const filterSetting = (
+			name: string,
+			desc: string,
+			placeholder: string,
+			key: keyof EventFilter
+		) => {
+			new Setting(settingsSection)
+				.setName(name)
+				.setDesc(desc)
+				.addTextArea((text) =>
+					text
+						.setPlaceholder(placeholder)
+						.setValue((project.eventFilter?.[key] || []).join("\n"))
+						.onChange(async (value) => {
+							const items = value.split("\n").map((s) => s.trim()).filter(Boolean);
+							project.eventFilter = { ...project.eventFilter, [key]: items.length > 0 ? items : undefined };
+							await this.plugin.saveSettings();
+						})
+				);
+		};
+
+		filterSetting(
+			"Include paths",
+			"Only sync events under these paths. One per line; * matches within a folder, ** across folders. Leave empty to include all.",
+			"event:/UI\nevent:/Music/**",
+			"includePaths"
+		);
+		filterSetting(
+			"Exclude paths",
+			"Never sync events under these paths. Their existing notes are left alone.",
+			"event:/Debug\nevent:/Prototype",
+			"excludePaths"
+		);
+		filterSetting(
+			"Banks",
+			"Only sync events assigned to one of these banks. Leave empty to include all.",
+			"Master\nUI",
+			"banks"
+		);
+		filterSetting(
+			"Exclude by user property",
+			"Skip events whose user properties match, e.g. doc=false, status!=final, or just a property name.",
+			"doc=false",
+			"excludeProperties"
+		);
+
+		// Removed events handling
+		new Setting(settingsSection)
+			.setName("Removed events")
+			.setDesc("What to do with notes whose event or audio file no longer exists in FMOD.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("mark", "Mark as removed")
+					.addOption("archive", "Mark and move to Archive folder")
+					.addOption("delete", "Delete note")
+					.setValue(project.orphanAction || "mark")
+					.onChange(async (value) => {
+						project.orphanAction = value as OrphanAction;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Name collisions
+		new Setting(settingsSection)
+			.setName("Duplicate event names")
+			.setDesc("How to name notes for events that share a name with another event in a different folder.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("skip", "Skip the event")
+					.addOption("same-folder", "Only match names in the same folder")
+					.addOption("folder-suffix", "Add folder name")
+					.addOption("guid-suffix", "Add short GUID")
+					.addOption("full-path", "Use full event path")
+					.setValue(project.collisionStrategy || "skip")
+					.onChange(async (value) => {
+						project.collisionStrategy = value as CollisionStrategy;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Auto-sync
+		new Setting(settingsSection)
+			.setName("Auto-sync")
+			.setDesc("Watch the export folder and sync automatically when a newer export of this project is written.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(project.autoSync ?? false)
+					.onChange(async (value) => {
+						project.autoSync = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Sync reports
+		new Setting(settingsSection)
+			.setName("Sync reports")
+			.setDesc("Write a changelog note to the Sync Reports folder after every sync.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(project.writeSyncReport ?? false)
+					.onChange(async (value) => {
+						project.writeSyncReport = value;
+						await this.plugin.saveSettings();
+					})
+			);
 	}
 
 	updateProjectPathInfo(card: HTMLElement, project: FMODProjectConfig): void {
@@ -0,0 +1,287 @@
+import * as fs from "fs";
+import { normalizePath } from "obsidian";
+import type { DataAdapter } from "obsidian";
+import type { AudioFileMetadata, AudioMetadataCache } from "../types";
+
+// Bytes read from the end of an Ogg file to find the last page
+const OGG_TAIL_SIZE = 65536;
+
+type FileHandle = fs.promises.FileHandle;
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+	const buffer = Buffer.alloc(length);
+	const { bytesRead } = await handle.read(buffer, 0, length, position);
+	return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Read an 80-bit IEEE extended float, as used for the AIFF sample rate.
+ */
+function readExtended(buf: Buffer, offset: number): number {
+	const exponent = ((buf[offset] & 0x7f) << 8) | buf[offset + 1];
+	const mantissa = buf.readUInt32BE(offset + 2) * 2 ** 32 + buf.readUInt32BE(offset + 6);
+	if (exponent === 0 && mantissa === 0) return 0;
+	const value = mantissa * 2 ** (exponent - 16383 - 63);
+	return buf[offset] & 0x80 ? -value : value;
+}
+
+/**
+ * Parse a RIFF/RF64 WAVE file from its fmt and data chunks.
+ */
+async function parseWav(handle: FileHandle, fileSize: number, rf64: boolean): Promise<AudioFileMetadata | null> {
+	let channels = 0;
+	let sampleRate = 0;
+	let byteRate = 0;
+	let bitDepth = 0;
+	let dataSize = -1;
+	let ds64DataSize = -1;
+
+	for (let offset = 12; offset + 8 <= fileSize; ) {
+		const header = await readAt(handle, offset, 8);
+		if (header.length < 8) break;
+		const id = header.toString("latin1", 0, 4);
+		const size = header.readUInt32LE(4);
+
+		if (id === "fmt ") {
+			const fmt = await readAt(handle, offset + 8, 16);
+			if (fmt.length < 16) return null;
+			channels = fmt.readUInt16LE(2);
+			sampleRate = fmt.readUInt32LE(4);
+			byteRate = fmt.readUInt32LE(8);
+			bitDepth = fmt.readUInt16LE(14);
+		} else if (id === "ds64") {
+			// RF64 keeps the real data size here when it doesn't fit in 32 bits
+			const ds64 = await readAt(handle, offset + 8, 16);
+			if (ds64.length >= 16) {
+				ds64DataSize = ds64.readUInt32LE(8) + ds64.readUInt32LE(12) * 2 ** 32;
+			}
+		} else if (id === "data") {
+			dataSize = rf64 && size === 0xffffffff && ds64DataSize >= 0 ? ds64DataSize : size;
+			// Files still being written can claim more data than they have
+			dataSize = Math.min(dataSize, fileSize - offset - 8);
+		}
+
+		if (byteRate > 0 && dataSize >= 0) break;
+		// Chunks are padded to an even size
+		offset += 8 + size + (size % 2);
+	}
+
+	if (!sampleRate || !byteRate || dataSize < 0) return null;
+	return { format: "WAV", duration: dataSize / byteRate, sampleRate, bitDepth, channels, fileSize };
+}
+
+/**
+ * Parse an AIFF or AIFF-C file from its COMM chunk.
+ */
+async function parseAiff(handle: FileHandle, fileSize: number): Promise<AudioFileMetadata | null> {
+	for (let offset = 12; offset + 8 <= fileSize; ) {
+		const header = await readAt(handle, offset, 8);
+		if (header.length < 8) break;
+		const id = header.toString("latin1", 0, 4);
+		const size = header.readUInt32BE(4);
+
+		if (id === "COMM") {
+			const comm = await readAt(handle, offset + 8, 18);
+			if (comm.length < 18) return null;
+			const channels = comm.readInt16BE(0);
+			const frames = comm.readUInt32BE(2);
+			const bitDepth = comm.readInt16BE(6);
+			const sampleRate = readExtended(comm, 8);
+			if (!sampleRate) return null;
+			return { format: "AIFF", duration: frames / sampleRate, sampleRate, bitDepth, channels, fileSize };
+		}
+
+		offset += 8 + size + (size % 2);
+	}
+	return null;
+}
+
+/**
+ * Parse a FLAC file from its STREAMINFO block, which always comes first.
+ */
+async function parseFlac(handle: FileHandle, fileSize: number, start: number): Promise<AudioFileMetadata | null> {
+	const buf = await readAt(handle, start, 42);
+	if (buf.length < 42 || (buf[4] & 0x7f) !== 0) return null;
+
+	// Skip the 4-byte block header and the block and frame size fields
+	const s = 18;
+	const sampleRate = (buf[s] << 12) | (buf[s + 1] << 4) | (buf[s + 2] >> 4);
+	const channels = ((buf[s + 2] >> 1) & 0x07) + 1;
+	const bitDepth = (((buf[s + 2] & 0x01) << 4) | (buf[s + 3] >> 4)) + 1;
+	const totalSamples = (buf[s + 3] & 0x0f) * 2 ** 32 + buf.readUInt32BE(s + 4);
+
+	if (!sampleRate) return null;
+	return { format: "FLAC", duration: totalSamples / sampleRate, sampleRate, bitDepth, channels, fileSize };
+}
+
+/**
+ * Parse an Ogg Vorbis or Opus file. The duration comes from the granule
+ * position of the last page, so the end of the file is read as well.
+ */
+async function parseOgg(handle: FileHandle, fileSize: number, head: Buffer): Promise<AudioFileMetadata | null> {
+	if (head.length < 28) return null;
+	const packetStart = 27 + head[26];
+	const packet = head.subarray(packetStart);
+
+	let channels: number;
+	let sampleRate: number;
+	let granuleRate: number;
+	let preSkip = 0;
+
+	if (packet.toString("latin1", 0, 7) === "\x01vorbis" && packet.length >= 16) {
+		channels = packet[11];
+		sampleRate = packet.readUInt32LE(12);
+		granuleRate = sampleRate;
+	} else if (packet.toString("latin1", 0, 8) === "OpusHead" && packet.length >= 16) {
+		channels = packet[9];
+		preSkip = packet.readUInt16LE(10);
+		sampleRate = packet.readUInt32LE(12) || 48000;
+		// Opus granule positions always count 48 kHz samples
+		granuleRate = 48000;
+	} else {
+		return null;
+	}
+
+	const tailStart = Math.max(0, fileSize - OGG_TAIL_SIZE);
+	const tail = await readAt(handle, tailStart, fileSize - tailStart);
+	const lastPage = tail.lastIndexOf("OggS", undefined, "latin1");
+	if (lastPage < 0 || lastPage + 14 > tail.length || !granuleRate) return null;
+	const granule = tail.readUInt32LE(lastPage + 6) + tail.readUInt32LE(lastPage + 10) * 2 ** 32;
+
+	return {
+		format: "Ogg",
+		duration: Math.max(0, granule - preSkip) / granuleRate,
+		sampleRate,
+		channels,
+		fileSize,
+	};
+}
+
+/**
+ * Read the format, duration, sample rate, bit depth and channel count of a
+ * WAV, AIFF, FLAC or Ogg file from its headers.
+ * Returns null for other formats or files that can't be parsed.
+ */
+export async function readAudioMetadata(filePath: string): Promise<AudioFileMetadata | null> {
+	const handle = await fs.promises.open(filePath, "r");
+	try {
+		const fileSize = (await handle.stat()).size;
+		const head = await readAt(handle, 0, 512);
+		const magic = head.toString("latin1", 0, 4);
+		const form = head.toString("latin1", 8, 12);
+
+		if ((magic === "RIFF" || magic === "RF64") && form === "WAVE") {
+			return await parseWav(handle, fileSize, magic === "RF64");
+		}
+		if (magic === "FORM" && (form === "AIFF" || form === "AIFC")) {
+			return await parseAiff(handle, fileSize);
+		}
+		if (magic === "fLaC") {
+			return await parseFlac(handle, fileSize, 0);
+		}
+		if (magic.startsWith("ID3") && head.length >= 10) {
+			// FLAC files can start with an ID3v2 tag; its size is stored as a syncsafe integer
+			const tagSize = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+			const start = 10 + tagSize + (head[5] & 0x10 ? 10 : 0);
+			const flacMagic = await readAt(handle, start, 4);
+			if (flacMagic.toString("latin1") === "fLaC") {
+				return await parseFlac(handle, fileSize, start);
+			}
+			return null;
+		}
+		if (magic === "OggS") {
+			return await parseOgg(handle, fileSize, head);
+		}
+		return null;
+	} finally {
+		await handle.close();
+	}
+}
+
+/**
+ * Get an audio file's metadata, reading its headers only when the file has
+ * changed since it was cached. Returns null when the file is missing or unsupported.
+ */
+export async function getAudioMetadata(
+	filePath: string,
+	cache: AudioMetadataCache
+): Promise<AudioFileMetadata | null> {
+	let stat: fs.Stats;
+	try {
+		stat = await fs.promises.stat(filePath);
+	} catch {
+		// Not on this machine, e.g. the project lives elsewhere
+		return null;
+	}
+
+	const cached = cache[filePath];
+	if (cached && cached.mtime === stat.mtimeMs && cached.size === stat.size) {
+		return cached.metadata;
+	}
+
+	let metadata: AudioFileMetadata | null = null;
+	try {
+		metadata = await readAudioMetadata(filePath);
+	} catch (error) {
+		console.error(`FMOD Sync: Could not read audio metadata of ${filePath}:`, error);
+	}
+
+	cache[filePath] = { mtime: stat.mtimeMs, size: stat.size, metadata };
+	return metadata;
+}
+
+/**
+ * Keep only the cached files an export still uses, so entries for renamed or
+ * deleted audio files don't pile up.
+ */
+export function pruneAudioMetadataCache(cache: AudioMetadataCache, usedPaths: Set<string>): void {
+	for (const filePath of Object.keys(cache)) {
+		if (!usedPaths.has(filePath)) {
+			delete cache[filePath];
+		}
+	}
+}
+
+/**
+ * Stores each project's audio metadata cache as a JSON file in a folder of the
+ * plugin's directory, so it isn't rewritten with the settings on every save.
+ */
+export class AudioMetadataStore {
+	private adapter: DataAdapter;
+	private folder: string;
+	// What each project's file holds, to skip writing an unchanged cache
+	private saved = new Map<string, string>();
+
+	constructor(adapter: DataAdapter, folder: string) {
+		this.adapter = adapter;
+		this.folder = normalizePath(folder);
+	}
+
+	/**
+	 * Read a project's cache. Returns an empty cache if it is missing or unreadable.
+	 */
+	async load(projectId: string): Promise<AudioMetadataCache> {
+		try {
+			const json = await this.adapter.read(this.pathFor(projectId));
+			this.saved.set(projectId, json);
+			return JSON.parse(json);
+		} catch {
+			return {};
+		}
+	}
+
+	async save(projectId: string, cache: AudioMetadataCache): Promise<void> {
+		const json = JSON.stringify(cache);
+		if (this.saved.get(projectId) === json) return;
+
+		if (!(await this.adapter.exists(this.folder))) {
+			await this.adapter.mkdir(this.folder);
+		}
+		await this.adapter.write(this.pathFor(projectId), json);
+		this.saved.set(projectId, json);
+	}
+
+	private pathFor(projectId: string): string {
+		return `${this.folder}/${projectId}.json`;
+	}
+}
@@ -0,0 +1,56 @@
+import type { DiffLine } from "../types";
+
+/**
+ * Compute a line-based diff between two texts using longest common subsequence.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const a = oldText ? oldText.split("\n") : [];
+	const b = newText ? newText.split("\n") : [];
+
+	// lcs[i][j] = length of LCS of a[i..] and b[j..]
+	const lcs: number[][] = [];
+	for (let i = a.length; i >= 0; i--) {
+		lcs[i] = [];
+		for (let j = b.length; j >= 0; j--) {
+			if (i === a.length || j === b.length) {
+				lcs[i][j] = 0;
+			} else if (a[i] === b[j]) {
+				lcs[i][j] = lcs[i + 1][j + 1] + 1;
+			} else {
+				lcs[i][j] = Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+			}
+		}
+	}
+
+	const result: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			result.push({ type: "same", text: a[i] });
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			result.push({ type: "remove", text: a[i] });
+			i++;
+		} else {
+			result.push({ type: "add", text: b[j] });
+			j++;
+		}
+	}
+	while (i < a.length) {
+		result.push({ type: "remove", text: a[i++] });
+	}
+	while (j < b.length) {
+		result.push({ type: "add", text: b[j++] });
+	}
+
+	return result;
+}
+
+/**
+ * Check whether a diff contains any added or removed lines.
+ */
+export function hasChanges(diff: DiffLine[]): boolean {
+	return diff.some((line) => line.type !== "same");
+}
@@ -0,0 +1,47 @@
+/**
+ * Matches bare event paths ("event:/UI/Click") and project-qualified links
+ * ("fmod://ProjectName/event:/UI/Click"). Stops at whitespace, quotes or closing brackets.
+ * Project names with spaces can be written URL-encoded, e.g. "fmod://My%20Game/event:/UI/Click".
+ */
+export const EVENT_LINK_PATTERN = /(?:fmod:\/\/([^/\s"'<>)}\]]+)\/)?(event:\/[^\s"'<>)}\]]+)/;
+
+export interface EventLink {
+	project?: string;  // Project name, when the link is project-qualified
+	eventPath: string; // e.g. "event:/UI/Click"
+}
+
+/**
+ * Parse an event link match into its project and event path.
+ */
+function toEventLink(match: RegExpMatchArray): EventLink {
+	let project: string | undefined;
+	if (match[1]) {
+		try {
+			project = decodeURIComponent(match[1]);
+		} catch {
+			project = match[1];
+		}
+	}
+	return { project, eventPath: match[2] };
+}
+
+/**
+ * Parse a link that is exactly an event path or a project-qualified event link.
+ */
+export function parseEventLink(text: string): EventLink | null {
+	const match = text.trim().match(new RegExp(`^${EVENT_LINK_PATTERN.source}$`));
+	return match ? toEventLink(match) : null;
+}
+
+/**
+ * Find every event link in a piece of text, with its position.
+ */
+export function findEventLinks(text: string): { link: EventLink; index: number; length: number }[] {
+	const regex = new RegExp(EVENT_LINK_PATTERN.source, "g");
+	const links: { link: EventLink; index: number; length: number }[] = [];
+	let match;
+	while ((match = regex.exec(text)) !== null) {
+		links.push({ link: toEventLink(match), index: match.index, length: match[0].length });
+	}
+	return links;
+}
@@ -0,0 +1,93 @@
+import type { EventFilter, FMODEvent } from "../types";
+
+/**
+ * Convert a full_path pattern to a regular expression.
+ * "*" matches within one folder, "**" matches across folders, and a pattern
+ * without wildcards matches that path and everything below it.
+ */
+function patternToRegExp(pattern: string): RegExp {
+	const trimmed = pattern.trim().replace(/\/+$/, "");
+	const escaped = trimmed
+		.split("**")
+		.map((part) =>
+			part
+				.split("*")
+				.map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+				.join("[^/]*")
+		)
+		.join(".*");
+	const hasWildcard = trimmed.includes("*");
+	return new RegExp(`^${escaped}${hasWildcard ? "" : "(/.*)?"}$`, "i");
+}
+
+/**
+ * Check whether an event path matches any of the given patterns.
+ */
+export function matchesPathPattern(fullPath: string, patterns: string[]): boolean {
+	return patterns.some((p) => p.trim() !== "" && patternToRegExp(p).test(fullPath));
+}
+
+/**
+ * Check a user property predicate against an event.
+ * Supports "name=value", "name!=value" and "name" (property is set).
+ * Names and values are compared case-insensitively.
+ */
+function matchesPropertyPredicate(event: FMODEvent, predicate: string): boolean {
+	const match = predicate.trim().match(/^([^!=]+?)\s*(!?=)\s*(.*)$/);
+	const name = (match ? match[1] : predicate).trim().toLowerCase();
+	if (!name) return false;
+
+	const property = (event.user_properties || []).find((p) => p.name.toLowerCase() === name);
+	if (!match) {
+		return property !== undefined;
+	}
+
+	const equal = property !== undefined &&
+		String(property.value).trim().toLowerCase() === match[3].trim().toLowerCase();
+	return match[2] === "=" ? equal : !equal;
+}
+
+/**
+ * Check whether an event passes a project's filter.
+ * Events without a filter always pass.
+ */
+export function eventPassesFilter(event: FMODEvent, filter: EventFilter | undefined): boolean {
+	if (!filter) return true;
+
+	const includePaths = (filter.includePaths || []).filter((p) => p.trim());
+	if (includePaths.length > 0 && !matchesPathPattern(event.full_path, includePaths)) {
+		return false;
+	}
+	if (filter.excludePaths && matchesPathPattern(event.full_path, filter.excludePaths)) {
+		return false;
+	}
+
+	const banks = (filter.banks || []).map((b) => b.trim().toLowerCase()).filter(Boolean);
+	if (banks.length > 0 && !(event.banks || []).some((b) => banks.includes(b.toLowerCase()))) {
+		return false;
+	}
+
+	return !(filter.excludeProperties || []).some(
+		(predicate) => predicate.trim() !== "" && matchesPropertyPredicate(event, predicate)
+	);
+}
+
+/**
+ * Summarize a filter in one line for the project card, e.g.
+ * "Include event:/UI | Exclude event:/Debug | Banks: Master".
+ */
+export function describeEventFilter(filter: EventFilter | undefined): string {
+	if (!filter) return "";
+	const clean = (list?: string[]) => (list || []).map((s) => s.trim()).filter(Boolean);
+
+	const parts: string[] = [];
+	const include = clean(filter.includePaths);
+	const exclude = clean(filter.excludePaths);
+	const banks = clean(filter.banks);
+	const properties = clean(filter.excludeProperties);
+	if (include.length > 0) parts.push(`Include ${include.join(", ")}`);
+	if (exclude.length > 0) parts.push(`Exclude ${exclude.join(", ")}`);
+	if (banks.length > 0) parts.push(`Banks: ${banks.join(", ")}`);
+	if (properties.length > 0) parts.push(`Skip ${properties.join(", ")}`);
+	return parts.join(" | ");
+}
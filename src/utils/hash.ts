@@ -0,0 +1,9 @@
+import * as crypto from "crypto";
+
+/**
+ * Hash a string to a short hex digest.
+ * Used to fingerprint synced content, not for security.
+ */
+export function hashString(value: string): string {
+	return crypto.createHash("sha1").update(value, "utf8").digest("hex").substring(0, 16);
+}
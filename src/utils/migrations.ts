@@ -0,0 +1,123 @@
+import { EXPORT_SCHEMA_VERSION } from "../constants";
+
+type RawExport = Record<string, unknown>;
+
+/**
+ * Migrations from each schema version to the next, keyed by the version they upgrade from.
+ * Exports without a schema_version predate versioning and are treated as version 1.
+ */
+const MIGRATIONS: Record<number, (data: RawExport) => RawExport> = {
+	// Version 1: fields were added to the script over time, so older exports may lack
+	// them. Fill in the defaults the current script writes.
+	1: (data) => {
+		const events = data.events;
+		return {
+			...data,
+			project_path: data.project_path ?? "",
+			event_count: data.event_count ?? (Array.isArray(events) ? events.length : 0),
+			events: Array.isArray(events)
+				? events.map((event: unknown) => migrateEventV1(event))
+				: events,
+			schema_version: 2,
+		};
+	},
+	// Version 2: banks, buses, VCAs and snapshots were exported as bank names only
+	2: (data) => ({
+		...data,
+		events: Array.isArray(data.events)
+			? data.events.map((event: unknown) =>
+				event && typeof event === "object" ? { output_bus: "", ...(event as RawExport) } : event
+			)
+			: data.events,
+		banks: data.banks ?? [],
+		buses: data.buses ?? [],
+		vcas: data.vcas ?? [],
+		snapshots: data.snapshots ?? [],
+		schema_version: 3,
+	}),
+	// Version 3: referenced events were not exported
+	3: (data) => ({
+		...data,
+		events: Array.isArray(data.events)
+			? data.events.map((event: unknown) =>
+				event && typeof event === "object" ? { referenced_events: [], ...(event as RawExport) } : event
+			)
+			: data.events,
+		schema_version: 4,
+	}),
+	// Version 4: the timeline was only summarised as the loop type
+	4: (data) => ({
+		...data,
+		events: Array.isArray(data.events)
+			? data.events.map((event: unknown) =>
+				event && typeof event === "object"
+					? { timeline: { length: 0, markers: [], tempo: [], loop_regions: [] }, ...(event as RawExport) }
+					: event
+			)
+			: data.events,
+		schema_version: 5,
+	}),
+};
+
+function migrateEventV1(event: unknown): unknown {
+	if (!event || typeof event !== "object") return event;
+	const ev = event as RawExport;
+	const fullPath = typeof ev.full_path === "string" ? ev.full_path : "";
+	const folderPath = fullPath.replace(/^event:\//, "").split("/").slice(0, -1).join("/");
+
+	return {
+		...ev,
+		full_path: ev.full_path ?? "",
+		folder_path: ev.folder_path ?? folderPath,
+		banks: ev.banks ?? [],
+		loop_type: ev.loop_type ?? "",
+		space: ev.space ?? "",
+		max_voices: ev.max_voices ?? "",
+		notes: ev.notes ?? "",
+		parameters: Array.isArray(ev.parameters)
+			? ev.parameters.map((param: unknown) => fillMissing(param, ["min", "max", "initial"]))
+			: ev.parameters ?? [],
+		user_properties: Array.isArray(ev.user_properties)
+			? ev.user_properties.map((prop: unknown) => fillMissing(prop, ["value"]))
+			: ev.user_properties ?? [],
+	};
+}
+
+/**
+ * Replace missing or null values, which older scripts could write, with empty strings.
+ * Older scripts also wrote the type of parameters and properties as FMOD's numeric enum.
+ */
+function fillMissing(item: unknown, keys: string[]): unknown {
+	if (!item || typeof item !== "object") return item;
+	const filled = { ...(item as RawExport) };
+	for (const key of ["type", ...keys]) {
+		if (filled[key] === undefined || filled[key] === null) filled[key] = "";
+	}
+	if (typeof filled.type === "number") filled.type = String(filled.type);
+	return filled;
+}
+
+/**
+ * Upgrade raw export data to the current schema version, one version at a time.
+ * Throws if the export is newer than this version of the plugin understands.
+ */
+export function migrateExportData(data: RawExport): RawExport {
+	let version = typeof data.schema_version === "number" ? data.schema_version : 1;
+
+	if (version > EXPORT_SCHEMA_VERSION) {
+		throw new Error(
+			`Export uses schema version ${version}, but this plugin supports up to ${EXPORT_SCHEMA_VERSION}. Update the plugin.`
+		);
+	}
+
+	let migrated = data;
+	while (version < EXPORT_SCHEMA_VERSION) {
+		const migrate = MIGRATIONS[version];
+		if (!migrate) {
+			throw new Error(`No migration from export schema version ${version}`);
+		}
+		migrated = migrate(migrated);
+		version++;
+	}
+	return migrated;
+}
@@ -0,0 +1,70 @@
+import { normalizePath } from "obsidian";
+import type { FMODProjectConfig } from "../types";
+import { EVENT_PATH_TEMPLATES, AUDIO_PATH_TEMPLATES } from "../constants";
+import { sanitizeFilename } from "./filename";
+
+export type PathTokens = Partial<Record<"folder_path" | "bank" | "name" | "guid_short" | "project", string>>;
+
+/**
+ * Get the event and audio note path templates for a project's layout.
+ */
+export function getPathTemplates(project: FMODProjectConfig): { event: string; audio: string } {
+	const layout = project.noteLayout || "mirror";
+	if (layout === "custom") {
+		return {
+			event: project.eventPathTemplate || EVENT_PATH_TEMPLATES.mirror,
+			audio: project.audioPathTemplate || AUDIO_PATH_TEMPLATES.mirror,
+		};
+	}
+	return { event: EVENT_PATH_TEMPLATES[layout], audio: AUDIO_PATH_TEMPLATES[layout] };
+}
+
+/**
+ * Sanitize each segment of a slash-separated folder path for use in the vault.
+ */
+export function sanitizeFolderPath(folderPath: string): string {
+	return folderPath
+		.split("/")
+		.filter(Boolean)
+		.map((s) => sanitizeFilename(s))
+		.join("/");
+}
+
+/**
+ * Short form of an FMOD GUID, e.g. "{1a2b3c4d-...}" -> "1a2b3c4d".
+ */
+export function shortGuid(guid: string): string {
+	return guid.replace(/[{}]/g, "").substring(0, 8);
+}
+
+/**
+ * Render a note path template into a vault path under the output folder.
+ * Token values are sanitized, unknown or empty tokens are dropped along with
+ * their empty folder, and "{name}" is appended if the template leaves it out
+ * so every note still gets its own file.
+ */
+export function renderPathTemplate(outputPath: string, template: string, tokens: PathTokens): string {
+	let pattern = template.trim().replace(/\.md$/i, "");
+	if (!pattern.includes("{name}")) {
+		pattern = pattern ? `${pattern}/{name}` : "{name}";
+	}
+
+	const rendered = pattern.replace(/\{(\w+)\}/g, (_match, token: string) => {
+		const value = tokens[token as keyof PathTokens] || "";
+		// Folder paths keep their slashes; everything else is a single segment
+		return token === "folder_path" ? sanitizeFolderPath(value) : sanitizeFilename(value);
+	});
+
+	const segments = rendered.split("/").map((s) => s.trim()).filter(Boolean);
+	return normalizePath(`${outputPath}/${segments.join("/")}.md`);
+}
+
+/**
+ * The fixed folder a template renders into before its first token, e.g. "Events".
+ */
+export function templateRoot(outputPath: string, template: string): string {
+	const tokenIdx = template.indexOf("{");
+	const prefix = tokenIdx >= 0 ? template.substring(0, tokenIdx) : template;
+	const folder = prefix.substring(0, prefix.lastIndexOf("/") + 1);
+	return normalizePath(`${outputPath}/${folder}`);
+}
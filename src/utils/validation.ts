@@ -1,56 +1,207 @@
 import type { FMODExportData, ValidationResult, FMODEvent } from "../types";
+import { migrateExportData } from "./migrations";
+
+type Fields = Record<string, unknown>;
+
+/** Describe a value's JSON type for error messages. */
+function typeName(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	return typeof value;
+}
 
 /**
- * Validate FMOD export JSON data structure.
- * Returns validation result with detailed error messages.
+ * Collects errors for one export, each prefixed with the JSON path of the field,
+ * e.g. "$.events[3].parameters[0].min: expected number or string, got null".
  */
-export function validateExportData(data: unknown): ValidationResult {
-	const errors: string[] = [];
+class ExportValidator {
+	errors: string[] = [];
 
-	if (!data || typeof data !== "object") {
-		return { valid: false, errors: ["Not a valid JSON object"] };
+	private fail(path: string, expected: string, value: unknown): void {
+		this.errors.push(`${path}: expected ${expected}, got ${value === undefined ? "nothing" : typeName(value)}`);
 	}
 
-	const obj = data as Record<string, unknown>;
+	/** Check an object, returning it for field checks, or null if it isn't one. */
+	object(path: string, value: unknown): Fields | null {
+		if (!value || typeof value !== "object" || Array.isArray(value)) {
+			this.fail(path, "object", value);
+			return null;
+		}
+		return value as Fields;
+	}
 
-	// Check required top-level fields
-	if (!Array.isArray(obj.events)) {
-		errors.push("Missing 'events' array");
-	} else {
-		// Validate each event
-		(obj.events as unknown[]).forEach((event: unknown, i: number) => {
-			if (!event || typeof event !== "object") {
-				errors.push(`Event ${i}: not a valid object`);
-				return;
-			}
-			const ev = event as Record<string, unknown>;
+	string(obj: Fields, path: string, key: string, options: { optional?: boolean; nonEmpty?: boolean } = {}): void {
+		const value = obj[key];
+		if (value === undefined && options.optional) return;
+		if (typeof value !== "string") {
+			this.fail(`${path}.${key}`, "string", value);
+		} else if (options.nonEmpty && value.trim() === "") {
+			this.errors.push(`${path}.${key}: must not be empty`);
+		}
+	}
 
-			if (!ev.guid || typeof ev.guid !== "string") {
-				errors.push(`Event ${i}: missing or invalid 'guid'`);
-			}
-			if (!ev.name || typeof ev.name !== "string") {
-				errors.push(`Event ${i}: missing or invalid 'name'`);
+	number(obj: Fields, path: string, key: string): void {
+		const value = obj[key];
+		if (typeof value !== "number" || !Number.isFinite(value)) {
+			this.fail(`${path}.${key}`, "number", value);
+		}
+	}
+
+	/** Check a field that may be any of the given primitive types. */
+	oneOf(obj: Fields, path: string, key: string, types: string[]): void {
+		const value = obj[key];
+		if (!types.includes(typeName(value))) {
+			this.fail(`${path}.${key}`, types.join(" or "), value);
+		}
+	}
+
+	/** Check an array field and run `item` on each element. */
+	array(obj: Fields, path: string, key: string, item: (value: unknown, itemPath: string) => void, optional = false): void {
+		const value = obj[key];
+		if (value === undefined && optional) return;
+		if (!Array.isArray(value)) {
+			this.fail(`${path}.${key}`, "array", value);
+			return;
+		}
+		value.forEach((element, i) => item(element, `${path}.${key}[${i}]`));
+	}
+
+	stringItem(value: unknown, path: string): void {
+		if (typeof value !== "string") this.fail(path, "string", value);
+	}
+
+	parameter(value: unknown, path: string): void {
+		const param = this.object(path, value);
+		if (!param) return;
+		this.string(param, path, "name");
+		this.string(param, path, "type");
+		this.oneOf(param, path, "min", ["number", "string"]);
+		this.oneOf(param, path, "max", ["number", "string"]);
+		this.oneOf(param, path, "initial", ["number", "string"]);
+		this.string(param, path, "labels", { optional: true });
+	}
+
+	userProperty(value: unknown, path: string): void {
+		const prop = this.object(path, value);
+		if (!prop) return;
+		this.string(prop, path, "name");
+		this.string(prop, path, "type");
+		this.oneOf(prop, path, "value", ["string", "number", "boolean"]);
+	}
+
+	audioFile(value: unknown, path: string): void {
+		const file = this.object(path, value);
+		if (!file) return;
+		this.string(file, path, "path", { nonEmpty: true });
+		this.string(file, path, "asset_path");
+	}
+
+	timeline(value: unknown, path: string): void {
+		const timeline = this.object(path, value);
+		if (!timeline) return;
+		this.number(timeline, path, "length");
+		this.array(timeline, path, "markers", (v, p) => {
+			const marker = this.object(p, v);
+			if (!marker) return;
+			if (marker.type !== "destination" && marker.type !== "transition") {
+				this.fail(`${p}.type`, "\"destination\" or \"transition\"", marker.type);
 			}
+			this.string(marker, p, "name");
+			this.number(marker, p, "position");
+			if (marker.length !== undefined) this.number(marker, p, "length");
+			this.string(marker, p, "destination", { optional: true });
+		});
+		this.array(timeline, path, "tempo", (v, p) => {
+			const tempo = this.object(p, v);
+			if (!tempo) return;
+			this.number(tempo, p, "position");
+			this.number(tempo, p, "tempo");
+			this.string(tempo, p, "time_signature");
 		});
+		this.array(timeline, path, "loop_regions", (v, p) => {
+			const region = this.object(p, v);
+			if (!region) return;
+			this.number(region, p, "start");
+			this.number(region, p, "end");
+		});
+	}
+
+	event(value: unknown, path: string): void {
+		const ev = this.object(path, value);
+		if (!ev) return;
+		this.string(ev, path, "name", { nonEmpty: true });
+		this.string(ev, path, "guid", { nonEmpty: true });
+		this.string(ev, path, "full_path");
+		this.string(ev, path, "folder_path");
+		this.array(ev, path, "banks", (v, p) => this.stringItem(v, p));
+		this.string(ev, path, "loop_type");
+		this.timeline(ev.timeline, `${path}.timeline`);
+		this.string(ev, path, "space");
+		this.oneOf(ev, path, "max_voices", ["number", "string"]);
+		this.string(ev, path, "notes");
+		this.array(ev, path, "parameters", (v, p) => this.parameter(v, p));
+		this.array(ev, path, "user_properties", (v, p) => this.userProperty(v, p));
+		this.array(ev, path, "audio_files", (v, p) => this.audioFile(v, p), true);
+		this.string(ev, path, "output_bus");
+		this.array(ev, path, "referenced_events", (v, p) => this.stringItem(v, p));
+	}
+
+	structureItem(value: unknown, path: string): void {
+		const item = this.object(path, value);
+		if (!item) return;
+		this.string(item, path, "guid", { nonEmpty: true });
+		this.string(item, path, "name");
+		this.string(item, path, "path", { nonEmpty: true });
+		this.string(item, path, "parent");
+		this.string(item, path, "notes");
 	}
 
-	if (typeof obj.project_name !== "string") {
-		errors.push("Missing 'project_name'");
+	exportData(value: unknown): void {
+		const obj = this.object("$", value);
+		if (!obj) return;
+		this.number(obj, "$", "schema_version");
+		this.string(obj, "$", "exported_at");
+		this.string(obj, "$", "fmod_version", { optional: true });
+		this.string(obj, "$", "project_name");
+		this.string(obj, "$", "project_path");
+		this.number(obj, "$", "event_count");
+		this.array(obj, "$", "events", (v, p) => this.event(v, p));
+		for (const key of ["banks", "buses", "vcas", "snapshots"]) {
+			this.array(obj, "$", key, (v, p) => this.structureItem(v, p));
+		}
+	}
+}
+
+/**
+ * Validate FMOD export JSON data structure.
+ * Older exports are migrated to the current schema first, then every field is
+ * type-checked so a malformed export is rejected before any note is written.
+ * Returns validation result with detailed error messages.
+ */
+export function validateExportData(data: unknown): ValidationResult {
+	if (!data || typeof data !== "object" || Array.isArray(data)) {
+		return { valid: false, errors: ["Not a valid JSON object"] };
 	}
 
-	if (typeof obj.exported_at !== "string") {
-		errors.push("Missing 'exported_at'");
+	let migrated: Record<string, unknown>;
+	try {
+		migrated = migrateExportData(data as Record<string, unknown>);
+	} catch (error) {
+		return { valid: false, errors: [error instanceof Error ? error.message : String(error)] };
 	}
 
-	if (errors.length === 0) {
+	const validator = new ExportValidator();
+	validator.exportData(migrated);
+
+	if (validator.errors.length === 0) {
 		return {
 			valid: true,
-			data: data as FMODExportData,
+			data: migrated as unknown as FMODExportData,
 			errors: [],
 		};
 	}
 
-	return { valid: false, errors };
+	return { valid: false, errors: validator.errors };
 }
 
 /**
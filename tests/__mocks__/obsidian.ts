@@ -0,0 +1,40 @@
+// Minimal stand-ins for the parts of the Obsidian API the sync code uses at runtime.
+// The obsidian package only ships type declarations, so tests alias it to this file.
+
+export class TAbstractFile {
+	path = "";
+	name = "";
+	parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
+	basename = "";
+	extension = "";
+	stat = { ctime: 0, mtime: 0, size: 0 };
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+}
+
+export class Notice {
+	message: string;
+
+	constructor(message: string, _timeout?: number) {
+		this.message = message;
+	}
+}
+
+export const Platform = {
+	isMacOS: false,
+	isWin: false,
+	isLinux: true,
+};
+
+export function normalizePath(path: string): string {
+	const normalized = path
+		.replace(/\\/g, "/")
+		.replace(/\/+/g, "/")
+		.replace(/^\/|\/$/g, "");
+	return normalized || "/";
+}
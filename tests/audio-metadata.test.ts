@@ -0,0 +1,267 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { DataAdapter } from "obsidian";
+import { afterAll, describe, expect, it } from "vitest";
+import { AudioMetadataStore, getAudioMetadata, readAudioMetadata } from "../src/utils/audio-metadata";
+import { planProjectSync } from "../src/sync/engine";
+import type { AudioMetadataCache } from "../src/types";
+import { createFakeApp } from "./fake-app";
+import { callbacks, makeEvent, makeExport, makeProject, writeExport } from "./fixtures";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fmod-sync-audio-"));
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function writeFile(name: string, ...parts: Buffer[]): string {
+	const filePath = path.join(dir, name);
+	fs.writeFileSync(filePath, Buffer.concat(parts));
+	return filePath;
+}
+
+function chunk(id: string, body: Buffer, littleEndian: boolean): Buffer {
+	const header = Buffer.alloc(8);
+	header.write(id, 0, "latin1");
+	if (littleEndian) header.writeUInt32LE(body.length, 4);
+	else header.writeUInt32BE(body.length, 4);
+	// Chunks are padded to an even size
+	return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+}
+
+function wav(channels: number, sampleRate: number, bitDepth: number, dataBytes: number): Buffer {
+	const fmt = Buffer.alloc(16);
+	fmt.writeUInt16LE(1, 0);
+	fmt.writeUInt16LE(channels, 2);
+	fmt.writeUInt32LE(sampleRate, 4);
+	fmt.writeUInt32LE((sampleRate * channels * bitDepth) / 8, 8);
+	fmt.writeUInt16LE((channels * bitDepth) / 8, 12);
+	fmt.writeUInt16LE(bitDepth, 14);
+	const chunks = Buffer.concat([
+		chunk("LIST", Buffer.from("odd"), true),
+		chunk("fmt ", fmt, true),
+		chunk("data", Buffer.alloc(dataBytes), true),
+	]);
+	const header = Buffer.alloc(12);
+	header.write("RIFF", 0, "latin1");
+	header.writeUInt32LE(chunks.length + 4, 4);
+	header.write("WAVE", 8, "latin1");
+	return Buffer.concat([header, chunks]);
+}
+
+// 80-bit IEEE extended float, for whole numbers like sample rates
+function extended(value: number): Buffer {
+	const buf = Buffer.alloc(10);
+	const exponent = Math.floor(Math.log2(value));
+	const mantissa = value * 2 ** (63 - exponent);
+	buf.writeUInt16BE(16383 + exponent, 0);
+	buf.writeUInt32BE(Math.floor(mantissa / 2 ** 32), 2);
+	buf.writeUInt32BE(mantissa % 2 ** 32, 6);
+	return buf;
+}
+
+function aiff(form: "AIFF" | "AIFC", channels: number, frames: number, bitDepth: number, sampleRate: number): Buffer {
+	const comm = Buffer.alloc(8);
+	comm.writeInt16BE(channels, 0);
+	comm.writeUInt32BE(frames, 2);
+	comm.writeInt16BE(bitDepth, 6);
+	const chunks = Buffer.concat([
+		chunk("FVER", Buffer.alloc(4), false),
+		chunk("COMM", Buffer.concat([comm, extended(sampleRate)]), false),
+	]);
+	const header = Buffer.alloc(12);
+	header.write("FORM", 0, "latin1");
+	header.writeUInt32BE(chunks.length + 4, 4);
+	header.write(form, 8, "latin1");
+	return Buffer.concat([header, chunks]);
+}
+
+function flac(channels: number, sampleRate: number, bitDepth: number, totalSamples: number): Buffer {
+	const info = Buffer.alloc(34);
+	info[10] = sampleRate >> 12;
+	info[11] = (sampleRate >> 4) & 0xff;
+	info[12] = ((sampleRate & 0x0f) << 4) | ((channels - 1) << 1) | ((bitDepth - 1) >> 4);
+	info[13] = (((bitDepth - 1) & 0x0f) << 4) | Math.floor(totalSamples / 2 ** 32);
+	info.writeUInt32BE(totalSamples % 2 ** 32, 14);
+	// Last metadata block, type 0 (STREAMINFO), 34 bytes
+	return Buffer.concat([Buffer.from("fLaC", "latin1"), Buffer.from([0x80, 0, 0, 34]), info]);
+}
+
+function id3Tag(size: number): Buffer {
+	const header = Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, size]);
+	return Buffer.concat([header, Buffer.alloc(size)]);
+}
+
+function oggPage(granule: number, packet: Buffer): Buffer {
+	const header = Buffer.alloc(27);
+	header.write("OggS", 0, "latin1");
+	header.writeUInt32LE(granule % 2 ** 32, 6);
+	header.writeUInt32LE(Math.floor(granule / 2 ** 32), 10);
+	header[26] = 1;
+	return Buffer.concat([header, Buffer.from([packet.length]), packet]);
+}
+
+function vorbisHead(channels: number, sampleRate: number): Buffer {
+	const packet = Buffer.alloc(30);
+	packet.write("\x01vorbis", 0, "latin1");
+	packet[11] = channels;
+	packet.writeUInt32LE(sampleRate, 12);
+	return packet;
+}
+
+function opusHead(channels: number, preSkip: number, inputRate: number): Buffer {
+	const packet = Buffer.alloc(19);
+	packet.write("OpusHead", 0, "latin1");
+	packet[8] = 1;
+	packet[9] = channels;
+	packet.writeUInt16LE(preSkip, 10);
+	packet.writeUInt32LE(inputRate, 12);
+	return packet;
+}
+
+describe("readAudioMetadata", () => {
+	it("reads WAV files, skipping other chunks", async () => {
+		const file = writeFile("stereo.wav", wav(2, 48000, 16, 19200));
+		expect(await readAudioMetadata(file)).toEqual({
+			format: "WAV",
+			duration: 0.1,
+			sampleRate: 48000,
+			bitDepth: 16,
+			channels: 2,
+			fileSize: fs.statSync(file).size,
+		});
+	});
+
+	it("limits the duration of WAV files with less data than they claim", async () => {
+		const full = wav(1, 8000, 8, 8000);
+		const file = writeFile("truncated.wav", full.subarray(0, full.length - 4000));
+		expect((await readAudioMetadata(file))?.duration).toBe(0.5);
+	});
+
+	it("reads AIFF and AIFF-C files", async () => {
+		const file = writeFile("mono.aiff", aiff("AIFF", 1, 44100 * 2, 24, 44100));
+		expect(await readAudioMetadata(file)).toEqual({
+			format: "AIFF",
+			duration: 2,
+			sampleRate: 44100,
+			bitDepth: 24,
+			channels: 1,
+			fileSize: fs.statSync(file).size,
+		});
+
+		const aifc = writeFile("stereo.aifc", aiff("AIFC", 2, 22050, 16, 22050));
+		expect(await readAudioMetadata(aifc)).toMatchObject({ format: "AIFF", duration: 1, channels: 2 });
+	});
+
+	it("reads FLAC files, with or without an ID3 tag in front", async () => {
+		const file = writeFile("music.flac", flac(2, 96000, 24, 96000 * 3));
+		expect(await readAudioMetadata(file)).toEqual({
+			format: "FLAC",
+			duration: 3,
+			sampleRate: 96000,
+			bitDepth: 24,
+			channels: 2,
+			fileSize: fs.statSync(file).size,
+		});
+
+		const tagged = writeFile("tagged.flac", id3Tag(20), flac(1, 44100, 16, 44100));
+		expect(await readAudioMetadata(tagged)).toMatchObject({ format: "FLAC", duration: 1, channels: 1 });
+	});
+
+	it("reads Ogg Vorbis files, taking the duration from the last page", async () => {
+		const file = writeFile("ambience.ogg", oggPage(0, vorbisHead(2, 44100)), oggPage(44100 * 2, Buffer.alloc(40)));
+		expect(await readAudioMetadata(file)).toEqual({
+			format: "Ogg",
+			duration: 2,
+			sampleRate: 44100,
+			channels: 2,
+			fileSize: fs.statSync(file).size,
+		});
+	});
+
+	it("reads Opus files at 48 kHz, leaving out the pre-skip", async () => {
+		const file = writeFile("voice.opus", oggPage(0, opusHead(1, 312, 16000)), oggPage(48000 * 1.5 + 312, Buffer.alloc(40)));
+		expect(await readAudioMetadata(file)).toMatchObject({ format: "Ogg", duration: 1.5, sampleRate: 16000, channels: 1 });
+	});
+
+	it("returns null for other formats and broken headers", async () => {
+		expect(await readAudioMetadata(writeFile("sound.mp3", Buffer.from("ID3\x04\x00\x00\x00\x00\x00\x00\xff\xfb", "latin1")))).toBeNull();
+		expect(await readAudioMetadata(writeFile("empty.wav", wav(2, 48000, 16, 0).subarray(0, 20)))).toBeNull();
+	});
+});
+
+describe("getAudioMetadata", () => {
+	it("reuses cached headers until the file changes", async () => {
+		const file = writeFile("cached.wav", wav(1, 48000, 16, 9600));
+		const cache: AudioMetadataCache = {};
+		expect((await getAudioMetadata(file, cache))?.duration).toBe(0.1);
+
+		cache[file].metadata!.duration = 99;
+		expect((await getAudioMetadata(file, cache))?.duration).toBe(99);
+
+		fs.writeFileSync(file, wav(1, 48000, 16, 19200));
+		expect((await getAudioMetadata(file, cache))?.duration).toBe(0.2);
+	});
+
+	it("skips files that aren't on this computer", async () => {
+		const cache: AudioMetadataCache = {};
+		expect(await getAudioMetadata(path.join(dir, "missing.wav"), cache)).toBeNull();
+		expect(cache).toEqual({});
+	});
+});
+
+/**
+ * In-memory stand-in for the vault adapter, counting writes.
+ */
+function createFakeAdapter(): { adapter: DataAdapter; files: Map<string, string>; writes: () => number } {
+	const files = new Map<string, string>();
+	let writes = 0;
+	const adapter = {
+		exists: async (p: string) => files.has(p) || [...files.keys()].some((f) => f.startsWith(`${p}/`)),
+		mkdir: async () => {},
+		read: async (p: string) => {
+			const content = files.get(p);
+			if (content === undefined) throw new Error(`No such file: ${p}`);
+			return content;
+		},
+		write: async (p: string, content: string) => {
+			writes++;
+			files.set(p, content);
+		},
+	};
+	return { adapter: adapter as unknown as DataAdapter, files, writes: () => writes };
+}
+
+describe("AudioMetadataStore", () => {
+	it("keeps each project's cache in its own file and skips unchanged writes", async () => {
+		const { adapter, files, writes } = createFakeAdapter();
+		const store = new AudioMetadataStore(adapter, "plugin/audio-metadata");
+		expect(await store.load("game")).toEqual({});
+
+		const cache: AudioMetadataCache = { "/a.wav": { mtime: 1, size: 2, metadata: null } };
+		await store.save("game", cache);
+		await store.save("game", cache);
+		expect(writes()).toBe(1);
+		expect([...files.keys()]).toEqual(["plugin/audio-metadata/game.json"]);
+
+		const reloaded = new AudioMetadataStore(adapter, "plugin/audio-metadata");
+		expect(await reloaded.load("game")).toEqual(cache);
+	});
+
+	it("drops files that are no longer in the export", async () => {
+		const first = writeFile("first.wav", wav(1, 48000, 16, 960));
+		const second = writeFile("second.wav", wav(1, 48000, 16, 960));
+		const { app, vault } = createFakeApp();
+		const { adapter } = createFakeAdapter();
+		const store = new AudioMetadataStore(adapter, "plugin/audio-metadata");
+		const project = makeProject();
+		const withAudio = (i: number, file: string) =>
+			makeEvent(i, { audio_files: [{ path: file, asset_path: path.basename(file) }] });
+
+		await writeExport(vault, makeExport([withAudio(1, first), withAudio(2, second)]));
+		await planProjectSync(app, project, { ...callbacks, audioMetadata: store }, true);
+		expect(Object.keys(await store.load(project.id)).sort()).toEqual([first, second].sort());
+
+		await writeExport(vault, makeExport([withAudio(1, first)], "2024-01-26T10:00:00Z"));
+		await planProjectSync(app, project, { ...callbacks, audioMetadata: store }, true);
+		expect(Object.keys(await store.load(project.id))).toEqual([first]);
+	});
+});
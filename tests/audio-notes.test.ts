@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { createFakeApp } from "./fake-app";
+import { makeEvent, makeExport, makeProject, sync, writeExport } from "./fixtures";
+
+describe("audio file notes", () => {
+	const project = makeProject({ noteLayout: "flat" });
+	const event = makeEvent(4);
+	const audioPath = "FMOD/Game/Audio Files/sound_4.wav.md";
+
+	it("leave an unrelated note at the audio note's path alone", async () => {
+		const { app, vault } = createFakeApp();
+		const unrelated = "---\ntags: [sfx]\n---\n\nMy own notes on this sound\n";
+		await vault.create(audioPath, unrelated);
+		await writeExport(vault, makeExport([event]));
+
+		const result = await sync(app, project);
+
+		expect(result.changes.find((c) => c.noteKind === "audio")).toMatchObject({
+			type: "skip",
+			path: audioPath,
+			reason: expect.stringContaining("Path collision"),
+		});
+		expect(vault.contentOf(audioPath)).toBe(unrelated);
+	});
+
+	it("update the audio note that was synced to that path", async () => {
+		const { app, vault } = createFakeApp();
+		await writeExport(vault, makeExport([event]));
+		await sync(app, project);
+
+		await writeExport(vault, makeExport([event, makeEvent(8, { audio_files: event.audio_files })], "2024-01-26T10:00:00Z"));
+		const result = await sync(app, project);
+
+		expect(result.changes.find((c) => c.noteKind === "audio")).toMatchObject({ type: "update", path: audioPath });
+		expect(vault.contentOf(audioPath)).toContain("[[Event_8]]");
+	});
+});
@@ -0,0 +1,118 @@
+import type { App, TFile } from "obsidian";
+import { describe, expect, it } from "vitest";
+import { extractManagedSections, managedSectionsHash } from "../src/markdown/managed";
+import { parseFrontmatter } from "../src/markdown/frontmatter";
+import { resolveConflict } from "../src/sync/processor";
+import type { SyncChange } from "../src/types";
+import { createFakeApp } from "./fake-app";
+import type { FakeVault } from "./fake-app";
+import { makeEvent, makeExport, makeProject, sync, writeExport } from "./fixtures";
+
+const project = makeProject();
+
+/**
+ * Sync an event with the given notes, then return the note's path.
+ */
+async function syncedNote(app: App, vault: FakeVault, notes: string): Promise<string> {
+	await writeExport(vault, makeExport([makeEvent(1, { notes })]));
+	const result = await sync(app, project);
+	return result.changes.find((c) => c.name === "Event 1")!.path;
+}
+
+async function editNote(vault: FakeVault, path: string, from: string, to: string): Promise<void> {
+	await vault.modify(vault.getAbstractFileByPath(path) as TFile, vault.contentOf(path).replace(from, to));
+}
+
+describe("managed sections", () => {
+	it("hash the same when only whitespace around sections differs", () => {
+		const a = "---\nx: 1\n---\n\n## Notes\nQuiet\n\n## User Properties\n- a = 1\n";
+		const b = "---\nx: 1\n---\n## Notes\n\nQuiet\n## User Properties\n- a = 1\n\n\n";
+		expect(managedSectionsHash(a)).toBe(managedSectionsHash(b));
+		expect(managedSectionsHash(a)).not.toBe(managedSectionsHash(a.replace("Quiet", "Loud")));
+	});
+
+	it("leave user sections out", () => {
+		const content = "---\nx: 1\n---\n\n## Notes\nQuiet\n\n## Design\nIdeas\n";
+		expect(extractManagedSections(content)).toEqual({ Notes: "Quiet" });
+	});
+});
+
+describe("conflict detection", () => {
+	it("keeps managed sections edited only in Obsidian", async () => {
+		const { app, vault } = createFakeApp();
+		const path = await syncedNote(app, vault, "Original");
+		await editNote(vault, path, "Original", "Edited in Obsidian");
+
+		// Something else about the event changes, so the note is regenerated
+		await writeExport(vault, makeExport([makeEvent(1, { notes: "Original", banks: ["Music"] })], "2024-01-26T10:00:00Z"));
+		const result = await sync(app, project);
+
+		expect(result.changes.find((c) => c.path === path)?.type).toBe("update");
+		expect(vault.contentOf(path)).toContain("Edited in Obsidian");
+		expect(parseFrontmatter(vault.contentOf(path)).properties["fmod_banks"]).toEqual(["Music"]);
+	});
+
+	it("updates managed sections changed only in FMOD", async () => {
+		const { app, vault } = createFakeApp();
+		const path = await syncedNote(app, vault, "Original");
+
+		await writeExport(vault, makeExport([makeEvent(1, { notes: "Changed in FMOD" })], "2024-01-26T10:00:00Z"));
+		await sync(app, project);
+
+		expect(extractManagedSections(vault.contentOf(path))["Notes"]).toBe("Changed in FMOD");
+	});
+
+	it("leaves the note untouched when both sides changed", async () => {
+		const { app, vault } = createFakeApp();
+		const path = await syncedNote(app, vault, "Original");
+		await editNote(vault, path, "Original", "Edited in Obsidian");
+		const edited = vault.contentOf(path);
+
+		await writeExport(vault, makeExport([makeEvent(1, { notes: "Changed in FMOD" })], "2024-01-26T10:00:00Z"));
+		const result = await sync(app, project);
+
+		expect(result.changes.find((c) => c.path === path)).toMatchObject({ type: "conflict" });
+		expect(vault.contentOf(path)).toBe(edited);
+	});
+});
+
+describe("conflict resolution", () => {
+	async function conflict() {
+		const { app, vault } = createFakeApp();
+		const path = await syncedNote(app, vault, "Original");
+		await editNote(vault, path, "Original", "Edited in Obsidian");
+		await writeExport(vault, makeExport([makeEvent(1, { notes: "Changed in FMOD" })], "2024-01-26T10:00:00Z"));
+		const result = await sync(app, project);
+		const change = result.changes.find((c) => c.type === "conflict") as SyncChange;
+		return { app, vault, path, change };
+	}
+
+	it("keeps the Obsidian version", async () => {
+		const { app, vault, path, change } = await conflict();
+		expect(await resolveConflict(app, change, "vault")).toBeNull();
+		expect(extractManagedSections(vault.contentOf(path))["Notes"]).toBe("Edited in Obsidian");
+	});
+
+	it("keeps the FMOD version", async () => {
+		const { app, vault, path, change } = await conflict();
+		expect(await resolveConflict(app, change, "fmod")).toBeNull();
+		expect(extractManagedSections(vault.contentOf(path))["Notes"]).toBe("Changed in FMOD");
+	});
+
+	it("keeps both, with the Obsidian version as its own section", async () => {
+		const { app, vault, path, change } = await conflict();
+		expect(await resolveConflict(app, change, "both")).toBeNull();
+		const content = vault.contentOf(path);
+		expect(extractManagedSections(content)["Notes"]).toBe("Changed in FMOD");
+		expect(content).toContain("## Notes (Obsidian)\nEdited in Obsidian");
+	});
+
+	it("leaves a note edited while the conflict was open as it is", async () => {
+		const { app, vault, path, change } = await conflict();
+		await editNote(vault, path, "Edited in Obsidian", "Edited again");
+		const edited = vault.contentOf(path);
+
+		expect(await resolveConflict(app, change, "fmod")).toMatch(/changed after the conflict was found/);
+		expect(vault.contentOf(path)).toBe(edited);
+	});
+});
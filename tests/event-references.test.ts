@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { parseFrontmatter } from "../src/markdown/frontmatter";
+import { createFakeApp } from "./fake-app";
+import { makeEvent, makeExport, makeProject, sync, writeExport } from "./fixtures";
+
+const project = makeProject({ noteLayout: "flat" });
+const music = makeEvent(1, { name: "Music", folder_path: "Music", full_path: "event:/Music/Music" });
+const intro = makeEvent(2, { name: "Intro", folder_path: "Music", full_path: "event:/Music/Intro" });
+const outro = makeEvent(3, { name: "Outro", folder_path: "Music", full_path: "event:/Music/Outro" });
+
+const propertiesOf = (content: string) => parseFrontmatter(content).properties;
+
+describe("fmod_uses and fmod_used_by", () => {
+	it("link events to the events they play and back", async () => {
+		const { app, vault } = createFakeApp();
+		const events = [{ ...music, referenced_events: [intro.guid, outro.guid] }, intro, outro];
+		await writeExport(vault, makeExport(events));
+		await sync(app, project);
+
+		const musicNote = propertiesOf(vault.contentOf("FMOD/Game/Events/Music.md"));
+		expect(musicNote["fmod_uses"]).toEqual([
+			"[[FMOD/Game/Events/Intro|Intro]]",
+			"[[FMOD/Game/Events/Outro|Outro]]",
+		]);
+		expect(musicNote["fmod_used_by"]).toBeUndefined();
+
+		const introNote = propertiesOf(vault.contentOf("FMOD/Game/Events/Intro.md"));
+		expect(introNote["fmod_used_by"]).toEqual(["[[FMOD/Game/Events/Music|Music]]"]);
+		expect(introNote["fmod_uses"]).toBeUndefined();
+	});
+
+	it("collect every event that plays a shared event", async () => {
+		const { app, vault } = createFakeApp();
+		const events = [
+			{ ...music, referenced_events: [outro.guid] },
+			{ ...intro, referenced_events: [outro.guid] },
+			outro,
+		];
+		await writeExport(vault, makeExport(events));
+		await sync(app, project);
+
+		expect(propertiesOf(vault.contentOf("FMOD/Game/Events/Outro.md"))["fmod_used_by"]).toEqual([
+			"[[FMOD/Game/Events/Music|Music]]",
+			"[[FMOD/Game/Events/Intro|Intro]]",
+		]);
+	});
+
+	it("leave out events that aren't in the project", async () => {
+		const { app, vault } = createFakeApp();
+		const events = [{ ...music, referenced_events: ["{00000000-0000-0000-0000-999999999999}"] }];
+		await writeExport(vault, makeExport(events));
+		await sync(app, project);
+
+		expect(propertiesOf(vault.contentOf("FMOD/Game/Events/Music.md"))["fmod_uses"]).toBeUndefined();
+	});
+
+	it("drop links once an event stops playing another", async () => {
+		const { app, vault } = createFakeApp();
+		await writeExport(vault, makeExport([{ ...music, referenced_events: [intro.guid] }, intro]));
+		await sync(app, project);
+
+		await writeExport(vault, makeExport([music, intro], "2024-01-26T10:00:00Z"));
+		await sync(app, project);
+
+		expect(propertiesOf(vault.contentOf("FMOD/Game/Events/Music.md"))["fmod_uses"]).toBeUndefined();
+		expect(propertiesOf(vault.contentOf("FMOD/Game/Events/Intro.md"))["fmod_used_by"]).toBeUndefined();
+	});
+});
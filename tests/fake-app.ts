@@ -0,0 +1,148 @@
+import type { App } from "obsidian";
+import { TAbstractFile, TFile, TFolder } from "obsidian";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * In-memory vault with just enough of the App API for the sync engine.
+ * Counts reads and writes so tests can check what a sync touched.
+ */
+export class FakeVault {
+	private entries = new Map<string, TAbstractFile>();
+	private contents = new Map<string, string>();
+	private mtime = 0;
+	reads = 0;
+	writes = 0;
+
+	constructor() {
+		const root = new TFolder();
+		root.path = "/";
+		this.entries.set("/", root);
+	}
+
+	getAbstractFileByPath(path: string): TAbstractFile | null {
+		return this.entries.get(path) ?? null;
+	}
+
+	async createFolder(path: string): Promise<TFolder> {
+		return this.ensureFolder(path);
+	}
+
+	async create(path: string, content: string): Promise<TFile> {
+		if (this.entries.has(path)) {
+			throw new Error(`File already exists: ${path}`);
+		}
+		const file = new TFile();
+		this.place(file, path);
+		this.write(file, content);
+		return file;
+	}
+
+	async modify(file: TFile, content: string): Promise<void> {
+		this.write(file, content);
+	}
+
+	async read(file: TFile): Promise<string> {
+		this.reads++;
+		return this.contentOf(file.path);
+	}
+
+	async cachedRead(file: TFile): Promise<string> {
+		return this.read(file);
+	}
+
+	async rename(file: TFile, newPath: string): Promise<void> {
+		const content = this.contentOf(file.path);
+		this.remove(file);
+		this.place(file, newPath);
+		this.contents.set(newPath, content);
+	}
+
+	remove(file: TAbstractFile): void {
+		file.parent?.children.splice(file.parent.children.indexOf(file), 1);
+		this.entries.delete(file.path);
+		this.contents.delete(file.path);
+	}
+
+	/**
+	 * Read a file without counting it, for assertions.
+	 */
+	contentOf(path: string): string {
+		const content = this.contents.get(path);
+		if (content === undefined) {
+			throw new Error(`No such file: ${path}`);
+		}
+		return content;
+	}
+
+	private write(file: TFile, content: string): void {
+		this.writes++;
+		this.contents.set(file.path, content);
+		file.stat = { ctime: file.stat.ctime, mtime: ++this.mtime, size: content.length };
+	}
+
+	private place(file: TFile, path: string): void {
+		const slash = path.lastIndexOf("/");
+		const parent = this.ensureFolder(slash >= 0 ? path.substring(0, slash) : "/");
+		file.path = path;
+		file.name = path.substring(slash + 1);
+		file.extension = file.name.includes(".") ? file.name.substring(file.name.lastIndexOf(".") + 1) : "";
+		file.basename = file.extension ? file.name.slice(0, -file.extension.length - 1) : file.name;
+		file.parent = parent;
+		parent.children.push(file);
+		this.entries.set(path, file);
+	}
+
+	private ensureFolder(path: string): TFolder {
+		const existing = this.entries.get(path);
+		if (existing instanceof TFolder) return existing;
+
+		const slash = path.lastIndexOf("/");
+		const parent = this.ensureFolder(slash >= 0 ? path.substring(0, slash) : "/");
+		const folder = new TFolder();
+		folder.path = path;
+		folder.name = path.substring(slash + 1);
+		folder.parent = parent;
+		parent.children.push(folder);
+		this.entries.set(path, folder);
+		return folder;
+	}
+}
+
+/**
+ * Parse a note's frontmatter with a real YAML parser, like Obsidian's metadata
+ * cache does, so tests don't depend on the plugin's own frontmatter parser.
+ * Returns undefined when there is no frontmatter or it isn't valid YAML.
+ */
+export function readCachedFrontmatter(content: string): Record<string, unknown> | undefined {
+	const match = content.match(/^---\n([\s\S]*?)\n---(?:\n|$)/);
+	if (!match) return undefined;
+	try {
+		const data: unknown = parseYaml(match[1]);
+		return data && typeof data === "object" && !Array.isArray(data)
+			? (data as Record<string, unknown>)
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Create an App backed by a FakeVault. The metadata cache indexes frontmatter
+ * on demand, the way Obsidian's cache would have.
+ */
+export function createFakeApp(): { app: App; vault: FakeVault } {
+	const vault = new FakeVault();
+	const app = {
+		vault,
+		metadataCache: {
+			getFileCache: (file: TFile) => ({
+				frontmatter: readCachedFrontmatter(vault.contentOf(file.path)),
+			}),
+		},
+		fileManager: {
+			renameFile: (file: TFile, newPath: string) => vault.rename(file, newPath),
+			trashFile: async (file: TFile) => vault.remove(file),
+		},
+	};
+	return { app: app as unknown as App, vault };
+}
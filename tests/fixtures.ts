@@ -0,0 +1,97 @@
+import type { FMODEvent, FMODExportData, FMODProjectConfig } from "../src/types";
+import { EXPORT_SCHEMA_VERSION } from "../src/constants";
+import { planProjectSync, applyProjectSync } from "../src/sync/engine";
+import type { ProjectSyncPlan, SyncEngineCallbacks } from "../src/sync/engine";
+import type { FakeVault } from "./fake-app";
+import type { App } from "obsidian";
+
+export const EXPORT_PATH = "Exports/Game.json";
+
+export const callbacks: SyncEngineCallbacks = {
+	onSaveSettings: async () => {},
+	refreshSettingsTab: () => {},
+};
+
+/**
+ * Build an event with every field an export has. Events are spread over
+ * 20 folders, and every fourth event uses an audio file.
+ */
+export function makeEvent(i: number, overrides: Partial<FMODEvent> = {}): FMODEvent {
+	const folder = `Folder ${i % 20}`;
+	return {
+		name: `Event ${i}`,
+		guid: `{00000000-0000-0000-0000-${String(i).padStart(12, "0")}}`,
+		full_path: `event:/${folder}/Event ${i}`,
+		folder_path: folder,
+		banks: ["Master"],
+		loop_type: "One-shot",
+		timeline: { length: 0, markers: [], tempo: [], loop_regions: [] },
+		space: "2D",
+		max_voices: "",
+		notes: "",
+		parameters: [],
+		user_properties: [],
+		audio_files: i % 4 === 0
+			? [{ path: `/nonexistent/Assets/sound_${i}.wav`, asset_path: `sound_${i}.wav` }]
+			: [],
+		output_bus: "",
+		referenced_events: [],
+		...overrides,
+	};
+}
+
+export function makeExport(events: FMODEvent[], exportedAt = "2024-01-25T14:30:52Z"): FMODExportData {
+	return {
+		schema_version: EXPORT_SCHEMA_VERSION,
+		exported_at: exportedAt,
+		fmod_version: "2.02.20",
+		project_name: "Game",
+		project_path: "/nonexistent/Game/Game.fspro",
+		event_count: events.length,
+		events,
+		banks: [],
+		buses: [],
+		vcas: [],
+		snapshots: [],
+	};
+}
+
+export function makeProject(overrides: Partial<FMODProjectConfig> = {}): FMODProjectConfig {
+	return {
+		id: "game",
+		jsonFilePath: EXPORT_PATH,
+		outputFolder: "FMOD/Game",
+		...overrides,
+	};
+}
+
+/**
+ * Put an export into the vault, replacing the previous one.
+ */
+export async function writeExport(vault: FakeVault, data: FMODExportData): Promise<void> {
+	const existing = vault.getAbstractFileByPath(EXPORT_PATH);
+	if (existing) {
+		vault.remove(existing);
+	}
+	await vault.create(EXPORT_PATH, JSON.stringify(data));
+}
+
+/**
+ * Plan a sync and fail the test if planning didn't produce a plan.
+ */
+export async function plan(app: App, project: FMODProjectConfig): Promise<ProjectSyncPlan> {
+	const result = await planProjectSync(app, project, callbacks, true);
+	if (!result) {
+		throw new Error("Sync planning failed");
+	}
+	return result;
+}
+
+/**
+ * Plan a sync and apply all of it.
+ */
+export async function sync(app: App, project: FMODProjectConfig): Promise<ProjectSyncPlan> {
+	const result = await plan(app, project);
+	await applyProjectSync(app, result, result.changes, callbacks, true);
+	return result;
+}
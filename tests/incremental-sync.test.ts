@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { parseFrontmatter } from "../src/markdown/frontmatter";
+import { createFakeApp } from "./fake-app";
+import { makeEvent, makeExport, makeProject, plan, sync, writeExport } from "./fixtures";
+
+describe("incremental sync", () => {
+	it("skips every note of a large unchanged project without reading or writing it", async () => {
+		const { app, vault } = createFakeApp();
+		const project = makeProject();
+		const events = Array.from({ length: 3000 }, (_, i) => makeEvent(i));
+		await writeExport(vault, makeExport(events));
+
+		const first = await sync(app, project);
+		expect(first.changes.filter((c) => c.type === "create")).toHaveLength(3000 + 750);
+
+		vault.reads = 0;
+		vault.writes = 0;
+		const started = Date.now();
+		const second = await sync(app, project);
+		const elapsedMs = Date.now() - started;
+
+		expect(second.changes).toHaveLength(3000 + 750);
+		expect(second.changes.every((c) => c.type === "unchanged")).toBe(true);
+		// Only the export itself is read
+		expect(vault.reads).toBe(1);
+		expect(vault.writes).toBe(0);
+		console.log(`Re-synced 3000 unchanged events in ${elapsedMs} ms`);
+	}, 60000);
+
+	it("finds notes by the GUID in their cached frontmatter", async () => {
+		const { app, vault } = createFakeApp();
+		const project = makeProject();
+		const event = makeEvent(1);
+		// Written the way Obsidian's property editor saves it, not the way the plugin does
+		await vault.create("FMOD/Game/Events/Renamed by hand.md", [
+			"---",
+			`fmod_guid: '${event.guid}'`,
+			"tags: [sfx, footsteps]",
+			"---",
+			"",
+			"## Design",
+			"Heavy boots",
+			"",
+		].join("\n"));
+		await writeExport(vault, makeExport([event]));
+
+		const result = await sync(app, project);
+
+		const change = result.changes.find((c) => c.name === event.name);
+		expect(change).toMatchObject({ type: "move", oldPath: "FMOD/Game/Events/Renamed by hand.md" });
+		expect(vault.contentOf(change!.path)).toContain("Heavy boots");
+	});
+
+	it("regenerates a removed note when its event is restored with the same data", async () => {
+		const { app, vault } = createFakeApp();
+		const project = makeProject({ orphanAction: "mark" });
+		const events = [makeEvent(1), makeEvent(2)];
+
+		await writeExport(vault, makeExport(events));
+		const first = await sync(app, project);
+		const notePath = first.changes.find((c) => c.name === "Event 2")!.path;
+
+		// Event 2 is deleted in FMOD
+		await writeExport(vault, makeExport([events[0]], "2024-01-26T10:00:00Z"));
+		await sync(app, project);
+		expect(parseFrontmatter(vault.contentOf(notePath)).properties["fmod_status"]).toBe("removed");
+
+		// ...and restored unchanged
+		await writeExport(vault, makeExport(events, "2024-01-27T10:00:00Z"));
+		const restored = await sync(app, project);
+
+		expect(restored.changes.find((c) => c.path === notePath)?.type).toBe("update");
+		const properties = parseFrontmatter(vault.contentOf(notePath)).properties;
+		expect(properties["fmod_status"]).toBe("exists");
+		expect(properties["fmod_removed_at"]).toBeUndefined();
+
+		// The next sync takes the fast path again
+		const next = await plan(app, project);
+		expect(next.changes.find((c) => c.path === notePath)?.type).toBe("unchanged");
+	});
+
+	it("regenerates a removed audio note when its file is used again", async () => {
+		const { app, vault } = createFakeApp();
+		const project = makeProject({ orphanAction: "mark" });
+		const events = [makeEvent(1), makeEvent(4)];
+
+		await writeExport(vault, makeExport(events));
+		const first = await sync(app, project);
+		const audioPath = first.changes.find((c) => c.noteKind === "audio")!.path;
+
+		await writeExport(vault, makeExport([events[0]], "2024-01-26T10:00:00Z"));
+		await sync(app, project);
+		expect(parseFrontmatter(vault.contentOf(audioPath)).properties["fmod_status"]).toBe("removed");
+
+		await writeExport(vault, makeExport(events, "2024-01-27T10:00:00Z"));
+		await sync(app, project);
+		expect(parseFrontmatter(vault.contentOf(audioPath)).properties["fmod_status"]).toBeUndefined();
+	});
+});
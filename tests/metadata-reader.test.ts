@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { readProjectMetadata } from "../src/sync/metadata-reader";
+import { EXPORT_SCHEMA_VERSION } from "../src/constants";
+
+// A small FMOD Studio project with only the metadata files the reader looks at
+const projectDirectory = path.resolve("tests/fspro-project");
+const fsproPath = path.join(projectDirectory, "Game.fspro");
+
+const tempDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "fmod-sync-metadata-"));
+afterAll(() => fs.rmSync(tempDirectory, { recursive: true, force: true }));
+
+describe("readProjectMetadata", () => {
+	it("reads events with their folder, banks, bus and timeline", async () => {
+		const data = await readProjectMetadata(fsproPath);
+		const footsteps = data.events.find((e) => e.name === "Footsteps");
+
+		expect(footsteps).toEqual({
+			name: "Footsteps",
+			guid: "{e0000000-0000-0000-0000-000000000001}",
+			full_path: "event:/Player/Footsteps",
+			folder_path: "Player",
+			banks: ["Player"],
+			loop_type: "Loop",
+			timeline: { length: 2, markers: [], tempo: [], loop_regions: [{ start: 0, end: 1 }] },
+			space: "3D",
+			max_voices: 4,
+			notes: "Walk cycle",
+			parameters: [],
+			user_properties: [{ name: "surface", type: "", value: "gravel" }],
+			audio_files: [{ path: `${projectDirectory}/Assets/Player/step.wav`, asset_path: "Player/step.wav" }],
+			output_bus: "bus:/SFX",
+			referenced_events: [],
+		});
+	});
+
+	it("falls back to defaults for properties left out of the XML", async () => {
+		const data = await readProjectMetadata(fsproPath);
+
+		expect(data.events.find((e) => e.name === "Ambience")).toEqual({
+			name: "Ambience",
+			guid: "{e0000000-0000-0000-0000-000000000002}",
+			full_path: "event:/Ambience",
+			folder_path: "",
+			banks: [],
+			loop_type: "One-shot",
+			timeline: { length: 0, markers: [], tempo: [], loop_regions: [] },
+			space: "2D",
+			max_voices: "",
+			notes: "",
+			parameters: [],
+			user_properties: [],
+			audio_files: [],
+			output_bus: "",
+			referenced_events: [],
+		});
+	});
+
+	it("lists events sorted by path, with the events they play", async () => {
+		const data = await readProjectMetadata(fsproPath);
+
+		expect(data.events.map((e) => e.full_path)).toEqual(["event:/Ambience", "event:/Music", "event:/Player/Footsteps"]);
+		expect(data.event_count).toBe(3);
+		expect(data.events.find((e) => e.name === "Music")?.referenced_events).toEqual([
+			"{e0000000-0000-0000-0000-000000000002}",
+		]);
+	});
+
+	it("reads banks in their folders and the mixer", async () => {
+		const data = await readProjectMetadata(fsproPath);
+
+		expect(data.banks).toEqual([
+			{ guid: "{b0000000-0000-0000-0000-000000000001}", name: "Player", path: "bank:/Characters/Player", parent: "", notes: "Loaded with the player" },
+			{ guid: "{b0000000-0000-0000-0000-000000000000}", name: "Master", path: "bank:/Master", parent: "", notes: "" },
+		]);
+		expect(data.buses).toEqual([
+			{ guid: "{d0000000-0000-0000-0000-000000000000}", name: "Master Bus", path: "bus:/", parent: "", notes: "" },
+			{ guid: "{d0000000-0000-0000-0000-000000000001}", name: "SFX", path: "bus:/SFX", parent: "bus:/", notes: "" },
+		]);
+		expect(data.vcas).toEqual([]);
+		expect(data.snapshots).toEqual([]);
+	});
+
+	it("describes the project like a JSON export", async () => {
+		const data = await readProjectMetadata(fsproPath);
+
+		expect(data.schema_version).toBe(EXPORT_SCHEMA_VERSION);
+		expect(data.project_name).toBe("Game");
+		expect(data.project_path).toBe(fsproPath);
+		expect(data.fmod_version).toBeUndefined();
+		expect(Number.isNaN(Date.parse(data.exported_at))).toBe(false);
+	});
+
+	it("fails without a Metadata folder", async () => {
+		const missing = path.join(tempDirectory, "Missing.fspro");
+		await expect(readProjectMetadata(missing)).rejects.toThrow(/No Metadata folder next to/);
+	});
+
+	it("fails on a metadata file that isn't valid XML", async () => {
+		const broken = path.join(tempDirectory, "Broken");
+		fs.mkdirSync(path.join(broken, "Metadata"), { recursive: true });
+		fs.writeFileSync(path.join(broken, "Metadata", "Mixer.xml"), "<objects><object class=");
+
+		await expect(readProjectMetadata(path.join(broken, "Broken.fspro"))).rejects.toThrow(/Failed to parse/);
+	});
+});
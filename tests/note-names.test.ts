@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { createFakeApp } from "./fake-app";
+import { makeEvent, makeExport, makeProject, sync, writeExport } from "./fixtures";
+
+const footstep = (i: number, folder: string) =>
+	makeEvent(i, { name: "Footstep", folder_path: folder, full_path: `event:/${folder}/Footstep` });
+
+describe("duplicate event names", () => {
+	const project = makeProject({ collisionStrategy: "folder-suffix", noteLayout: "flat" });
+
+	it("keeps a note's filename when a second event with its name is added", async () => {
+		const { app, vault } = createFakeApp();
+		await writeExport(vault, makeExport([footstep(1, "Player")]));
+		const first = await sync(app, project);
+		expect(first.changes.map((c) => c.path)).toEqual(["FMOD/Game/Events/Footstep.md"]);
+
+		await writeExport(vault, makeExport([footstep(1, "Player"), footstep(2, "Enemy")]));
+		const second = await sync(app, project);
+		expect(second.changes.map((c) => [c.type, c.path])).toEqual([
+			["unchanged", "FMOD/Game/Events/Footstep.md"],
+			["create", "FMOD/Game/Events/Footstep_(Enemy).md"],
+		]);
+	});
+
+	it("keeps the longer filename when the other event is deleted", async () => {
+		const { app, vault } = createFakeApp();
+		await writeExport(vault, makeExport([footstep(1, "Player"), footstep(2, "Enemy")]));
+		await sync(app, project);
+
+		await writeExport(vault, makeExport([footstep(1, "Player")], "2024-01-26T10:00:00Z"));
+		const second = await sync(app, project);
+		expect(second.changes.find((c) => c.name === "Footstep" && c.type !== "remove")).toMatchObject({
+			type: "unchanged",
+			path: "FMOD/Game/Events/Footstep_(Player).md",
+		});
+	});
+
+	it("renames the note when the event is renamed in FMOD", async () => {
+		const { app, vault } = createFakeApp();
+		await writeExport(vault, makeExport([footstep(1, "Player"), footstep(2, "Enemy")]));
+		await sync(app, project);
+
+		const renamed = makeEvent(1, { name: "Step", folder_path: "Player", full_path: "event:/Player/Step" });
+		await writeExport(vault, makeExport([renamed, footstep(2, "Enemy")], "2024-01-26T10:00:00Z"));
+		const second = await sync(app, project);
+		expect(second.changes.find((c) => c.name === "Step")).toMatchObject({
+			type: "move",
+			oldPath: "FMOD/Game/Events/Footstep_(Player).md",
+			path: "FMOD/Game/Events/Step.md",
+		});
+	});
+});
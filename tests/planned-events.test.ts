@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { parseFrontmatter } from "../src/markdown/frontmatter";
+import { createFakeApp } from "./fake-app";
+import { makeEvent, makeExport, makeProject, sync, writeExport } from "./fixtures";
+
+describe("events created from planned notes", () => {
+	const project = makeProject({ orphanAction: "delete", noteLayout: "flat" });
+	const event = makeEvent(7, { name: "Click", folder_path: "UI", full_path: "event:/UI/Click" });
+	const notePath = "FMOD/Game/Events/Click.md";
+	// A planned note after "Create FMOD event from planned note"
+	const createdNote = [
+		"---",
+		"fmod_status: planned",
+		`fmod_guid: "${event.guid}"`,
+		"fmod_full_path: event:/UI/Click",
+		"fmod_created_at: 2024-01-26T12:00:00.000Z",
+		"---",
+		"",
+		"## Design",
+		"Soft click",
+		"",
+	].join("\n");
+
+	it("keeps the note while exports predate the event", async () => {
+		const { app, vault } = createFakeApp();
+		await vault.create(notePath, createdNote);
+
+		await writeExport(vault, makeExport([makeEvent(1)], "2024-01-26T11:00:00Z"));
+		const result = await sync(app, project);
+
+		expect(result.changes.some((c) => c.type === "remove")).toBe(false);
+		expect(vault.contentOf(notePath)).toBe(createdNote);
+	});
+
+	it("treats the note as usual when its creation date can't be read", async () => {
+		const { app, vault } = createFakeApp();
+		await vault.create(notePath, createdNote.replace("2024-01-26T12:00:00.000Z", "yesterday"));
+
+		await writeExport(vault, makeExport([makeEvent(1)], "2024-01-26T11:00:00Z"));
+		const result = await sync(app, project);
+
+		expect(result.changes.find((c) => c.path === notePath)?.type).toBe("remove");
+	});
+
+	it("adopts the note once an export contains the event", async () => {
+		const { app, vault } = createFakeApp();
+		await vault.create(notePath, createdNote);
+
+		await writeExport(vault, makeExport([event], "2024-01-26T13:00:00Z"));
+		const result = await sync(app, project);
+
+		expect(result.changes.find((c) => c.path === notePath)).toMatchObject({ type: "update", adopted: true });
+		const content = vault.contentOf(notePath);
+		const properties = parseFrontmatter(content).properties;
+		expect(properties["fmod_status"]).toBe("exists");
+		expect(properties["fmod_created_at"]).toBeUndefined();
+		expect(content).toContain("Soft click");
+	});
+
+	it("treats the note as removed when a later export doesn't have the event", async () => {
+		const { app, vault } = createFakeApp();
+		await vault.create(notePath, createdNote);
+
+		await writeExport(vault, makeExport([makeEvent(1)], "2024-01-26T13:00:00Z"));
+		const result = await sync(app, project);
+
+		expect(result.changes.find((c) => c.path === notePath)?.type).toBe("remove");
+		expect(vault.getAbstractFileByPath(notePath)).toBeNull();
+	});
+});
+
+describe("planned events list", () => {
+	const plannedNote = (fullPath: string) =>
+		["---", "fmod_status: planned", `fmod_full_path: ${fullPath}`, "fmod_banks: [UI]", "---", "", "## Design", ""].join("\n");
+
+	it("keeps the planned notes that the sync found no event for", async () => {
+		const { app, vault } = createFakeApp();
+		const project = makeProject({ noteLayout: "flat" });
+		await vault.create("FMOD/Game/Events/Click.md", plannedNote("event:/UI/Click"));
+		await vault.create("FMOD/Game/Events/Hover.md", plannedNote("event:/UI/Hover"));
+
+		await writeExport(vault, makeExport([makeEvent(7, { name: "Click", folder_path: "UI", full_path: "event:/UI/Click" })]));
+		const result = await sync(app, project);
+
+		expect(result.changes.find((c) => c.adopted)?.name).toBe("Click");
+		expect(project.plannedEvents).toEqual([
+			{ name: "Hover", path: "FMOD/Game/Events/Hover.md", fullPath: "event:/UI/Hover", banks: ["UI"] },
+		]);
+	});
+});
@@ -0,0 +1,135 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { collectPushChanges, parseUserPropertiesSection } from "../src/markdown/managed";
+import { generateMarkdown } from "../src/markdown/generator";
+import type { FMODEventDocs } from "../src/types";
+import { makeEvent } from "./fixtures";
+
+interface FieldHelpers {
+	getNotes(obj: object): string;
+	setNotes(obj: object, text: string): void;
+	getUserPropertyValue(prop: object): string | number | boolean;
+	setUserPropertyValue(prop: object, text: string): void;
+}
+
+// The helpers the export script and the push commands run inside FMOD Studio
+const fields = new Function(
+	readFileSync("scripts/fmod-fields.js", "utf8") +
+		"\nreturn { getNotes, setNotes, getUserPropertyValue, setUserPropertyValue };"
+)() as FieldHelpers;
+
+const noteWith = (sections: string) => `---\nfmod_guid: "{x}"\n---\n\n${sections}`;
+
+describe("parseUserPropertiesSection", () => {
+	it("reads names and values with or without a type", () => {
+		expect(parseUserPropertiesSection("- doc (bool) = true\n- owner = Sam\n- layer (int) = 3")).toEqual([
+			{ name: "doc", value: "true" },
+			{ name: "owner", value: "Sam" },
+			{ name: "layer", value: "3" },
+		]);
+	});
+
+	it("reads properties without a value as empty", () => {
+		expect(parseUserPropertiesSection("- todo (string)\n- flag")).toEqual([
+			{ name: "todo", value: "" },
+			{ name: "flag", value: "" },
+		]);
+	});
+
+	it("ignores lines that aren't list items", () => {
+		expect(parseUserPropertiesSection("Some text\n\n- mood = calm = tense\n")).toEqual([
+			{ name: "mood", value: "calm = tense" },
+		]);
+	});
+});
+
+describe("collectPushChanges", () => {
+	const docs: FMODEventDocs = {
+		notes: "Plays on every step",
+		userProperties: [
+			{ name: "doc", value: "true" },
+			{ name: "owner", value: "Sam" },
+		],
+	};
+
+	it("finds nothing to push when the note matches FMOD", () => {
+		const content = noteWith("## Notes\nPlays on every step\n\n## User Properties\n- doc (bool) = true\n- owner = Sam\n");
+		expect(collectPushChanges(content, docs)).toEqual([]);
+	});
+
+	it("lists changed notes, changed properties and new properties", () => {
+		const content = noteWith("## Notes\nPlays on heavy steps\n\n## User Properties\n- doc (bool) = false\n- owner = Sam\n- mood = tense\n");
+		expect(collectPushChanges(content, docs)).toEqual([
+			{ kind: "notes", name: "Notes", oldValue: "Plays on every step", newValue: "Plays on heavy steps" },
+			{ kind: "property", name: "doc", oldValue: "true", newValue: "false" },
+			{ kind: "property", name: "mood", oldValue: null, newValue: "tense" },
+		]);
+	});
+
+	it("leaves FMOD alone for sections and properties missing from the note", () => {
+		const content = noteWith("## User Properties\n- owner = Sam\n");
+		expect(collectPushChanges(content, docs)).toEqual([]);
+	});
+
+	it("finds nothing to push for a note synced from an event that keeps its fields elsewhere", () => {
+		// A build that stores notes in "comment" and property values in stringValue/intValue
+		const fmodEvent = {
+			comment: "Plays on every step",
+			userProperties: [
+				{ name: "owner", type: "string", stringValue: "Sam" },
+				{ name: "layer", type: "int", intValue: 3 },
+			],
+		};
+		const event = makeEvent(1, {
+			notes: fields.getNotes(fmodEvent),
+			user_properties: fmodEvent.userProperties.map((p) => ({
+				name: p.name,
+				type: p.type,
+				value: fields.getUserPropertyValue(p),
+			})),
+		});
+		const content = generateMarkdown(event, null, "2024-01-25T14:30:52Z", "Game");
+		const current: FMODEventDocs = {
+			notes: fields.getNotes(fmodEvent),
+			userProperties: fmodEvent.userProperties.map((p) => ({
+				name: p.name,
+				value: String(fields.getUserPropertyValue(p)),
+			})),
+		};
+
+		expect(collectPushChanges(content, current)).toEqual([]);
+	});
+});
+
+describe("FMOD field helpers", () => {
+	it("read notes from the first field that has them", () => {
+		expect(fields.getNotes({ note: "", comment: "From comment" })).toBe("From comment");
+		expect(fields.getNotes({ notes: "From notes", description: "Other" })).toBe("From notes");
+		expect(fields.getNotes({})).toBe("");
+	});
+
+	it("write notes to the field they were read from", () => {
+		const filled: Record<string, string> = { note: "", description: "Old" };
+		fields.setNotes(filled, "New");
+		expect(filled).toEqual({ note: "", description: "New" });
+
+		const empty: Record<string, string> = { comment: "" };
+		fields.setNotes(empty, "New");
+		expect(empty).toEqual({ comment: "New" });
+	});
+
+	it("write property values to their field, keeping the value's type", () => {
+		const count: Record<string, unknown> = { value: undefined, intValue: 3 };
+		fields.setUserPropertyValue(count, "5");
+		expect(count.intValue).toBe(5);
+
+		const flag: Record<string, unknown> = { boolValue: false };
+		expect(fields.getUserPropertyValue(flag)).toBe(false);
+		fields.setUserPropertyValue(flag, "true");
+		expect(flag.boolValue).toBe(true);
+
+		const text: Record<string, unknown> = { stringValue: "Sam" };
+		fields.setUserPropertyValue(text, "Alex");
+		expect(text.stringValue).toBe("Alex");
+	});
+});
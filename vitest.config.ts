@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// The obsidian package only has type declarations
+			obsidian: path.resolve("tests/__mocks__/obsidian.ts"),
+		},
+	},
+	define: {
+		// Embedded by esbuild.config.mjs in the plugin build
+		FMOD_FIELDS_SCRIPT: JSON.stringify(readFileSync("scripts/fmod-fields.js", "utf8")),
+	},
+	test: {
+		include: ["tests/**/*.test.ts"],
+	},
+});